@@ -1,13 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Dashboard } from './components/Dashboard';
 import { Goals } from './components/Goals';
 import { Settings } from './components/Settings';
 import { FixedExpenses } from './components/FixedExpenses';
 import { YearlyGoals } from './components/YearlyGoals';
+import { PlatformReport } from './components/PlatformReport';
+import { HistorySearch } from './components/HistorySearch';
+import { FuelLog } from './components/FuelLog';
 import { BottomNav } from './components/ui/BottomNav';
-import { Transaction, GoalSettings, ViewMode, FixedExpense, CreditCard } from './types';
+import { Snackbar } from './components/ui/Snackbar';
+import { Transaction, GoalSettings, ViewMode, FixedExpense, CreditCard, AppData, Theme, TrashItem, Profile, SyncMetadata, CatalogItem, CatalogKind, EntryTemplate, WorkLog, Shift, MaintenancePlan, Account, Transfer } from './types';
+import { createEmptyAppData } from './constants';
+import { useHistory } from './hooks/useHistory';
+import { useSync } from './hooks/useSync';
+import { DataRepository, StorageError, ValueCodec, plainCodec, diffAppData, isEmptyChangeSet, applyChangeSet } from './services/repository';
+import { openRepository } from './services/openRepository';
+import { loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId, deleteProfileData, getStorageKeyPrefix } from './services/profiles';
+import { stampChanges } from './services/sync';
+import { hasPinLock, unlockWithPin, createPinLock, removePinLock } from './services/pinLock';
+import { LockScreen } from './components/LockScreen';
+import { registerServiceWorker, applyUpdate } from './services/serviceWorker';
+import { TabChannel, TabMessage, openTabChannel } from './services/tabSync';
+import { Backup, ImportMode, serializeBackup, getBackupFileName, mergeAppData } from './services/backup';
+import { trashTransactions, trashFixedExpense, trashOccurrence, trashEverything, restoreTrashItem, purgeExpiredTrash } from './services/trash';
+import { saveCatalogItem, moveCatalogItem } from './services/catalog';
+import { recordTemplateUse, createTransactionFromTemplate } from './services/templates';
+import { BulkEdit, applyBulkEdit } from './services/bulkEdit';
+import { isEmptyWorkLog } from './services/workLog';
+import { MaintenanceDone, scheduleMaintenance, completeMaintenance } from './services/maintenance';
+import { compressImage, getReferencedAttachmentIds, ORPHAN_ATTACHMENT_GRACE_MS } from './services/attachments';
+import { downloadFile, getISODate } from './utils';
+import { v4 as uuidv4 } from 'uuid';
+import { AlertCircle, Undo2, Redo2, RefreshCw } from './components/Icons';
 
-type Theme = 'light' | 'dark';
+const CATALOG_LABELS: Record<CatalogKind, { added: string; edited: string; archived: string; restored: string }> = {
+  category: { added: 'Categoria adicionada', edited: 'Categoria editada', archived: 'Categoria arquivada', restored: 'Categoria restaurada' },
+  platform: { added: 'App adicionado', edited: 'App editado', archived: 'App arquivado', restored: 'App restaurado' }
+};
+
+// Quantos passos de desfazer ficam guardados
+const HISTORY_LIMIT = 50;
+// Tempo em segundo plano depois do qual o PIN é pedido de novo (dá tempo de escolher um arquivo, por exemplo)
+const RELOCK_AFTER_MS = 60 * 1000;
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewMode>('home');
@@ -22,60 +56,166 @@ const App: React.FC = () => {
     return 'dark';
   });
 
-  // Global State
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [fixedExpenses, setFixedExpenses] = useState<FixedExpense[]>([]);
-  const [creditCards, setCreditCards] = useState<CreditCard[]>([]);
-  const [goalSettings, setGoalSettings] = useState<GoalSettings>({
-    monthlyGoal: 3000, 
-    monthlyGoals: {}, 
-    daysOff: [],
-    startDayOfMonth: 1,
-    dailySavingTarget: 0,
-    savingsDates: [],
-    savingsAdjustments: {},
-    savingsWithdrawals: {}
-  });
+  // Profiles
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(() => loadActiveProfileId(profiles));
+
+  // PIN: enquanto bloqueado, nada é lido do armazenamento; o codec com a chave só existe em memória
+  const [hasPin, setHasPin] = useState(() => hasPinLock(getStorageKeyPrefix(activeProfileId)));
+  const [isLocked, setIsLocked] = useState(hasPin);
+  const codecRef = useRef<ValueCodec>(plainCodec);
+
+  // Global State (com histórico para desfazer/refazer)
+  // Toda alteração (inclusive desfazer/refazer) recebe `updatedAt` e lápides para a sincronização
+  const { state: data, commit, undo, redo, reset, replace, undoLabel, redoLabel } = useHistory<AppData>(createEmptyAppData(), HISTORY_LIMIT, stampChanges);
+  const { transactions, fixedExpenses, creditCards, trash, catalog, templates, workLogs, shifts, maintenancePlans, accounts, transfers, goalSettings } = data;
+  const [snackbar, setSnackbar] = useState<{ id: number; message: string; action: 'undo' | 'redo' } | null>(null);
+
+  // Só grava depois que os dados salvos foram lidos com sucesso
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  // Uma aba antiga aberta segura a atualização do banco até ser fechada
+  const [isStorageBlocked, setIsStorageBlocked] = useState(false);
+  const repositoryRef = useRef<DataRepository | null>(null);
+  // Último snapshot gravado, usado para calcular as alterações incrementais
+  const persistedRef = useRef<AppData | null>(null);
+  // Incrementado quando outra aba regrava tudo e os dados precisam ser relidos
+  const [reloadToken, setReloadToken] = useState(0);
+  const tabChannelRef = useRef<TabChannel | null>(null);
 
-  // Persistence
+  // Persistence (recarrega do zero a cada troca de perfil e a cada desbloqueio)
   useEffect(() => {
-    const savedTx = localStorage.getItem('transactions');
-    const savedGoals = localStorage.getItem('goalSettings');
-    const savedFixed = localStorage.getItem('fixedExpenses');
-    const savedCards = localStorage.getItem('creditCards');
-    
-    if (savedTx) setTransactions(JSON.parse(savedTx));
-    if (savedFixed) setFixedExpenses(JSON.parse(savedFixed));
-    if (savedCards) setCreditCards(JSON.parse(savedCards));
-    if (savedGoals) {
-      const parsed = JSON.parse(savedGoals);
-      setGoalSettings({
-        ...parsed,
-        monthlyGoals: parsed.monthlyGoals || {}, 
-        startDayOfMonth: parsed.startDayOfMonth || 1,
-        dailySavingTarget: parsed.dailySavingTarget || 0,
-        savingsDates: parsed.savingsDates || [],
-        savingsAdjustments: parsed.savingsAdjustments || {},
-        savingsWithdrawals: parsed.savingsWithdrawals || {}
+    let cancelled = false;
+    let opened: DataRepository | null = null;
+
+    repositoryRef.current = null;
+    persistedRef.current = null;
+    setIsHydrated(false);
+    setStorageError(null);
+    setIsStorageBlocked(false);
+    reset(createEmptyAppData());
+    if (isLocked) return;
+
+    openRepository(activeProfileId, codecRef.current, () => {
+      if (!cancelled) setIsStorageBlocked(true);
+    })
+      .then(repository => {
+        opened = repository;
+        // Trocou de perfil enquanto o banco abria
+        if (cancelled) {
+          repository.close();
+          return null;
+        }
+        repositoryRef.current = repository;
+        setIsStorageBlocked(false);
+        return repository.load();
+      })
+      .then(loaded => {
+        if (cancelled || !loaded) return;
+        // Itens vencidos saem da lixeira e as manutenções que chegaram perto viram conta ao abrir o app;
+        // as mudanças são gravadas pelo efeito abaixo. O `reset` não carimba nada, então as contas e
+        // planos alterados são carimbados aqui para que a sincronização os envie aos outros aparelhos
+        const trimmed = purgeExpiredTrash(loaded);
+        const purged = stampChanges(trimmed, scheduleMaintenance(trimmed));
+        reset(purged);
+        persistedRef.current = loaded;
+        setIsHydrated(true);
+        // Com o histórico recém-zerado, nenhum desfazer traz de volta uma foto sem registro
+        repositoryRef.current?.pruneAttachments(getReferencedAttachmentIds(purged), Date.now() - ORPHAN_ATTACHMENT_GRACE_MS)
+          // Falhou, fica para a próxima abertura
+          .catch(() => undefined);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setIsStorageBlocked(false);
+        setStorageError(error instanceof StorageError ? error : new StorageError(String(error), 'unreadable'));
       });
-    }
-  }, []);
+
+    return () => {
+      cancelled = true;
+      opened?.close();
+    };
+  }, [reset, activeProfileId, isLocked, reloadToken]);
 
   useEffect(() => {
-    localStorage.setItem('transactions', JSON.stringify(transactions));
-  }, [transactions]);
+    const repository = repositoryRef.current;
+    if (!isHydrated || !repository || !persistedRef.current) return;
+
+    const changes = diffAppData(persistedRef.current, data);
+    persistedRef.current = data;
+    if (isEmptyChangeSet(changes)) return;
+
+    repository.apply(changes)
+      .then(() => tabChannelRef.current?.post({ type: 'changes', changes }))
+      .catch(() => setStorageError(new StorageError('Algumas alterações podem não ter sido salvas.', 'write-failed')));
+  }, [data, isHydrated]);
+
+  // Outras abas e janelas no mesmo perfil avisam o que gravaram
+  const handleTabMessage = (message: TabMessage) => {
+    if (message.type === 'reload') {
+      // Pode ter sido a troca do PIN; com PIN, a chave atual talvez já não sirva
+      const profileHasPin = hasPinLock(getStorageKeyPrefix(activeProfileId));
+      codecRef.current = plainCodec;
+      setHasPin(profileHasPin);
+      setIsLocked(profileHasPin);
+      setReloadToken(token => token + 1);
+      return;
+    }
+
+    // Antes de carregar não há o que conciliar: a leitura já traz o que a outra aba gravou
+    if (!isHydrated || !persistedRef.current) return;
+    // O snapshot gravado recebe tudo, como está no banco. Na tela, em edições simultâneas do mesmo
+    // registro vence a mais recente; se for a daqui, a diferença é regravada e volta para a outra aba
+    persistedRef.current = applyChangeSet(persistedRef.current, message.changes);
+    replace(prev => applyChangeSet(prev, message.changes, (current, incoming) =>
+      ((incoming as SyncMetadata).updatedAt || '') >= ((current as SyncMetadata).updatedAt || '')
+    ));
+  };
+  const handleTabMessageRef = useRef(handleTabMessage);
+  handleTabMessageRef.current = handleTabMessage;
 
   useEffect(() => {
-    localStorage.setItem('goalSettings', JSON.stringify(goalSettings));
-  }, [goalSettings]);
+    const channel = openTabChannel(activeProfileId, message => handleTabMessageRef.current(message));
+    tabChannelRef.current = channel;
+    return () => {
+      channel.close();
+      tabChannelRef.current = null;
+    };
+  }, [activeProfileId]);
 
+  // A lista de perfis fica no localStorage, que já avisa as outras abas
   useEffect(() => {
-    localStorage.setItem('fixedExpenses', JSON.stringify(fixedExpenses));
-  }, [fixedExpenses]);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'profiles') return;
+      setProfiles(loadProfiles());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
 
+  const sync = useSync({ storagePrefix: getStorageKeyPrefix(activeProfileId), data, isHydrated, applyRemote: replace });
+
+  // Pede o PIN de novo ao voltar para o app depois de um tempo em segundo plano
   useEffect(() => {
-    localStorage.setItem('creditCards', JSON.stringify(creditCards));
-  }, [creditCards]);
+    if (!hasPin) return;
+    let hiddenAt: number | null = null;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        hiddenAt = Date.now();
+      } else if (hiddenAt !== null && Date.now() - hiddenAt > RELOCK_AFTER_MS) {
+        codecRef.current = plainCodec;
+        setSnackbar(null);
+        setIsLocked(true);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [hasPin]);
+
+  // Versão nova do app baixada pelo service worker, esperando o usuário aceitar
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  useEffect(() => registerServiceWorker(setWaitingWorker), []);
 
   // Theme Effect
   useEffect(() => {
@@ -89,41 +229,408 @@ const App: React.FC = () => {
     setTheme(prev => prev === 'dark' ? 'light' : 'dark');
   };
 
-  const handleAddTransaction = (t: Transaction) => setTransactions(prev => [...prev, t]);
-  const handleUpdateTransaction = (updatedT: Transaction) => setTransactions(prev => prev.map(t => t.id === updatedT.id ? updatedT : t));
-  const handleDeleteTransaction = (id: string) => setTransactions(prev => prev.filter(t => t.id !== id));
-  const handleAddFixedExpense = (e: FixedExpense) => setFixedExpenses(prev => [...prev, e]);
-  const handleUpdateFixedExpense = (updated: FixedExpense) => setFixedExpenses(prev => prev.map(e => e.id === updated.id ? updated : e));
-  const handleDeleteFixedExpense = (id: string) => setFixedExpenses(prev => prev.filter(e => e.id !== id));
-  const handleAddCard = (card: CreditCard) => setCreditCards(prev => [...prev, card]);
-  const handleUpdateCard = (updatedCard: CreditCard) => setCreditCards(prev => prev.map(c => c.id === updatedCard.id ? updatedCard : c));
-  const handleDeleteCard = (id: string) => {
-    setCreditCards(prev => prev.filter(c => c.id !== id));
-    setFixedExpenses(prev => prev.map(e => e.cardId === id ? { ...e, cardId: undefined } : e));
+  // Alterações destrutivas oferecem "Desfazer" logo em seguida
+  const commitWithUndo = (label: string, updater: (prev: AppData) => AppData) => {
+    commit(label, updater);
+    setSnackbar({ id: Date.now(), message: label, action: 'undo' });
+  };
+
+  const handleUndo = useCallback(() => {
+    if (!undoLabel) return;
+    undo();
+    setSnackbar({ id: Date.now(), message: `Desfeito: ${undoLabel}`, action: 'redo' });
+  }, [undo, undoLabel]);
+
+  const handleRedo = useCallback(() => {
+    if (!redoLabel) return;
+    redo();
+    setSnackbar({ id: Date.now(), message: `Refeito: ${redoLabel}`, action: 'undo' });
+  }, [redo, redoLabel]);
+
+  const closeSnackbar = useCallback(() => setSnackbar(null), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select')) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // `templateId` conta o uso do atalho que abriu o formulário, na mesma alteração do lançamento
+  // Um abastecimento com odômetro pode deixar uma manutenção perto, e a conta dela entra junto
+  const handleAddTransaction = (t: Transaction, templateId?: string) =>
+    commit('Lançamento adicionado', prev => scheduleMaintenance({
+      ...prev,
+      transactions: [...prev.transactions, t],
+      templates: templateId ? recordTemplateUse(prev.templates, templateId) : prev.templates
+    }));
+  // Um toque na faixa lança na hora, então pode ser desfeito pelo aviso
+  const handleQuickEntry = (template: EntryTemplate) =>
+    commitWithUndo(`${template.name} lançado`, prev => ({
+      ...prev,
+      transactions: [...prev.transactions, createTransactionFromTemplate(template, uuidv4(), getISODate(new Date()))],
+      templates: recordTemplateUse(prev.templates, template.id)
+    }));
+  const handleSaveTemplate = (template: EntryTemplate) =>
+    commit(templates.some(t => t.id === template.id) ? 'Atalho editado' : 'Atalho criado', prev => ({
+      ...prev,
+      templates: prev.templates.some(t => t.id === template.id)
+        ? prev.templates.map(t => t.id === template.id ? template : t)
+        : [...prev.templates, template]
+    }));
+  // Um dia em branco deixa de ter registro
+  const handleSaveWorkLog = (log: WorkLog) =>
+    commit(isEmptyWorkLog(log) ? 'Dia apagado' : 'Dia anotado', prev => {
+      const others = prev.workLogs.filter(l => l.id !== log.id);
+      return { ...prev, workLogs: isEmptyWorkLog(log) ? others : [...others, log] };
+    });
+  const handleSaveShift = (shift: Shift, label: string) =>
+    commit(label, prev => ({
+      ...prev,
+      shifts: prev.shifts.some(s => s.id === shift.id)
+        ? prev.shifts.map(s => s.id === shift.id ? shift : s)
+        : [...prev.shifts, shift]
+    }));
+  const handleDeleteShift = (id: string) =>
+    commitWithUndo('Turno excluído', prev => ({ ...prev, shifts: prev.shifts.filter(s => s.id !== id) }));
+  const handleSaveMaintenancePlans = (plans: MaintenancePlan[]) =>
+    commit(plans.length > 1 ? 'Planos de manutenção criados' : maintenancePlans.some(p => p.id === plans[0].id) ? 'Plano editado' : 'Plano criado', prev => {
+      const ids = new Set(plans.map(p => p.id));
+      return scheduleMaintenance({ ...prev, maintenancePlans: [...prev.maintenancePlans.filter(p => !ids.has(p.id)), ...plans] });
+    });
+  const handleDeleteMaintenancePlan = (id: string) =>
+    commitWithUndo('Plano excluído', prev => ({ ...prev, maintenancePlans: prev.maintenancePlans.filter(p => p.id !== id) }));
+  const handleCompleteMaintenance = (id: string, done: MaintenanceDone) =>
+    commit('Manutenção registrada', prev => scheduleMaintenance(completeMaintenance(prev, id, done, uuidv4)));
+  const handleSaveAccount = (account: Account) =>
+    commit(accounts.some(a => a.id === account.id) ? 'Conta editada' : 'Conta criada', prev => ({
+      ...prev,
+      accounts: prev.accounts.some(a => a.id === account.id)
+        ? prev.accounts.map(a => a.id === account.id ? account : a)
+        : [...prev.accounts, account]
+    }));
+  const handleAddTransfer = (transfer: Transfer) =>
+    commit('Transferência registrada', prev => ({ ...prev, transfers: [...prev.transfers, transfer] }));
+  const handleDeleteTransfer = (id: string) =>
+    commitWithUndo('Transferência excluída', prev => ({ ...prev, transfers: prev.transfers.filter(t => t.id !== id) }));
+  const handleDeleteTemplate = (id: string) =>
+    commitWithUndo('Atalho excluído', prev => ({ ...prev, templates: prev.templates.filter(t => t.id !== id) }));
+  const handleImportTransactions = (imported: Transaction[]) =>
+    commitWithUndo('Extrato importado', prev => ({ ...prev, transactions: [...prev.transactions, ...imported] }));
+  const handleUpdateTransaction = (updatedT: Transaction) =>
+    commit('Lançamento editado', prev => scheduleMaintenance({ ...prev, transactions: prev.transactions.map(t => t.id === updatedT.id ? updatedT : t) }));
+  const handleDeleteTransaction = (id: string) =>
+    commitWithUndo('Lançamento movido para a lixeira', prev => trashTransactions(prev, [id]));
+  const handleBulkDeleteTransactions = (ids: string[]) =>
+    commitWithUndo(ids.length === 1 ? 'Lançamento movido para a lixeira' : `${ids.length} lançamentos movidos para a lixeira`, prev => trashTransactions(prev, ids));
+  const handleBulkUpdateTransactions = (ids: string[], changes: BulkEdit) => {
+    const label = changes.date ? 'Data alterada' : changes.category ? 'Categoria alterada' : changes.accountId ? 'Conta alterada' : 'App alterado';
+    commitWithUndo(`${label} em ${ids.length} ${ids.length === 1 ? 'lançamento' : 'lançamentos'}`, prev => ({
+      ...prev,
+      transactions: applyBulkEdit(prev.transactions, ids, changes)
+    }));
+  };
+  const handleAddFixedExpense = (e: FixedExpense) =>
+    commit('Fixa adicionada', prev => ({ ...prev, fixedExpenses: [...prev.fixedExpenses, e] }));
+  // Comprime e grava a foto na hora; o registro só passa a apontar para ela quando for salvo
+  const handleSaveAttachment = async (file: File) => {
+    const repository = repositoryRef.current;
+    if (!repository || !isHydrated) throw new Error('Os dados ainda não foram carregados.');
+    const id = uuidv4();
+    await repository.saveAttachment(id, await compressImage(file));
+    return id;
+  };
+  const handleLoadAttachment = async (id: string) => {
+    const repository = repositoryRef.current;
+    return repository ? repository.loadAttachment(id) : null;
+  };
+
+  const handleUpdateFixedExpense = (updated: FixedExpense) =>
+    commit('Fixa editada', prev => ({ ...prev, fixedExpenses: prev.fixedExpenses.map(e => e.id === updated.id ? updated : e) }));
+  const handleToggleFixedExpensePaid = (updated: FixedExpense, isPaid: boolean) =>
+    commitWithUndo(isPaid ? 'Marcado como pago' : 'Marcado como pendente', prev => scheduleMaintenance({ ...prev, fixedExpenses: prev.fixedExpenses.map(e => e.id === updated.id ? updated : e) }));
+  const handleDeleteFixedExpense = (id: string) =>
+    commitWithUndo('Fixa movida para a lixeira', prev => trashFixedExpense(prev, id));
+  const handleDeleteOccurrence = (id: string, occurrenceDate: string) =>
+    commitWithUndo('Mês movido para a lixeira', prev => trashOccurrence(prev, id, occurrenceDate));
+  const handleRestoreTrashItem = (item: TrashItem) =>
+    commitWithUndo('Item restaurado', prev => restoreTrashItem(prev, item));
+  const handlePurgeTrashItem = (id: string) =>
+    commitWithUndo('Excluído definitivamente', prev => ({ ...prev, trash: prev.trash.filter(t => t.id !== id) }));
+  const handleEmptyTrash = () =>
+    commitWithUndo('Lixeira esvaziada', prev => ({ ...prev, trash: [] }));
+  const handleAddCard = (card: CreditCard) =>
+    commit('Cartão adicionado', prev => ({ ...prev, creditCards: [...prev.creditCards, card] }));
+  const handleUpdateCard = (updatedCard: CreditCard) =>
+    commit('Cartão editado', prev => ({ ...prev, creditCards: prev.creditCards.map(c => c.id === updatedCard.id ? updatedCard : c) }));
+  const handleDeleteCard = (id: string) =>
+    commitWithUndo('Cartão excluído', prev => ({
+      ...prev,
+      creditCards: prev.creditCards.filter(c => c.id !== id),
+      fixedExpenses: prev.fixedExpenses.map(e => e.cardId === id ? { ...e, cardId: undefined } : e)
+    }));
+  const handleSaveCatalogItem = (item: CatalogItem) => {
+    const previous = catalog.find(i => i.id === item.id);
+    const labels = CATALOG_LABELS[item.kind];
+    if (!previous) {
+      commit(labels.added, prev => saveCatalogItem(prev, item));
+      return;
+    }
+    // Renomear mexe em todos os registros que usam o nome, então pode ser desfeito
+    const label = previous.archived === item.archived ? labels.edited : item.archived ? labels.archived : labels.restored;
+    commitWithUndo(label, prev => saveCatalogItem(prev, item));
+  };
+  const handleMoveCatalogItem = (id: string, offset: -1 | 1) =>
+    commit('Ordem alterada', prev => ({ ...prev, catalog: moveCatalogItem(prev.catalog, id, offset) }));
+  const handleUpdateSettings = (settings: GoalSettings) =>
+    commit('Ajustes alterados', prev => ({ ...prev, goalSettings: settings }));
+
+  const handleExportBackup = () => {
+    downloadFile(serializeBackup(data, theme), getBackupFileName(), 'application/json');
+  };
+
+  const handleImportBackup = (backup: Backup, mode: ImportMode) => {
+    commitWithUndo('Backup importado', prev => mode === 'replace' ? backup.data : mergeAppData(prev, backup.data));
+    if (mode === 'replace' && backup.theme) setTheme(backup.theme);
   };
 
   const handleClearData = () => {
-    setTransactions([]);
-    setFixedExpenses([]);
-    setCreditCards([]);
-    setGoalSettings({ monthlyGoal: 0, monthlyGoals: {}, daysOff: [], startDayOfMonth: 1, dailySavingTarget: 0, savingsDates: [], savingsAdjustments: {}, savingsWithdrawals: {} });
-    localStorage.clear();
+    if (isHydrated) {
+      // Lançamentos e fixas continuam recuperáveis pela lixeira
+      commitWithUndo('Dados apagados', prev => ({ ...createEmptyAppData(), trash: trashEverything(prev) }));
+      return;
+    }
+
+    // Zerar é uma escolha explícita, então libera a gravação mesmo que a leitura tenha falhado
+    const repository = repositoryRef.current;
+    if (!repository) {
+      setStorageError(new StorageError('O armazenamento não está disponível, então nada foi apagado.', 'write-failed'));
+      return;
+    }
+    repository.clear()
+      .then(() => {
+        // Trocou de perfil enquanto apagava
+        if (repositoryRef.current !== repository) return;
+        const empty = createEmptyAppData();
+        reset(empty);
+        persistedRef.current = empty;
+        setStorageError(null);
+        setIsHydrated(true);
+        tabChannelRef.current?.post({ type: 'reload' });
+      })
+      .catch(() => setStorageError(new StorageError('Não foi possível apagar os dados salvos.', 'write-failed')));
+  };
+
+  const updateProfiles = (next: Profile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const handleSwitchProfile = (id: string) => {
+    if (id === activeProfileId) return;
+    const profileHasPin = hasPinLock(getStorageKeyPrefix(id));
+    codecRef.current = plainCodec;
+    setSnackbar(null);
+    setHasPin(profileHasPin);
+    setIsLocked(profileHasPin);
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
   };
 
+  const handleAddProfile = (name: string) => {
+    const profile: Profile = { id: uuidv4(), name };
+    updateProfiles([...profiles, profile]);
+    handleSwitchProfile(profile.id);
+  };
+
+  const handleRenameProfile = (id: string, name: string) =>
+    updateProfiles(profiles.map(p => p.id === id ? { ...p, name } : p));
+
+  // Lança PinError com a mensagem para a tela de bloqueio
+  const handleUnlock = async (pin: string) => {
+    codecRef.current = await unlockWithPin(getStorageKeyPrefix(activeProfileId), pin);
+    setIsLocked(false);
+  };
+
+  // Sem PIN não há como ler os dados criptografados; a única saída é apagar o perfil
+  const handleForgotPin = async () => {
+    await deleteProfileData(activeProfileId);
+    codecRef.current = plainCodec;
+    setHasPin(false);
+    setIsLocked(false);
+    tabChannelRef.current?.post({ type: 'reload' });
+  };
+
+  /**
+   * Ativa, troca ou remove o PIN regravando tudo com a nova codificação.
+   * Passa sempre por texto puro, que qualquer codec consegue ler, para que os dados
+   * continuem legíveis se o app for fechado no meio do processo.
+   */
+  const handleSetPin = async (pin: string | null) => {
+    const repository = repositoryRef.current;
+    // Sem os dados carregados não há o que regravar; o erro chega ao formulário do PIN
+    if (!repository || !isHydrated) {
+      throw new StorageError('Seus dados ainda não foram carregados, então o PIN não foi alterado.', 'unreadable');
+    }
+    const prefix = getStorageKeyPrefix(activeProfileId);
+
+    if (hasPinLock(prefix)) {
+      repository.setCodec(plainCodec);
+      await repository.replaceAll(data);
+      removePinLock(prefix);
+      codecRef.current = plainCodec;
+    }
+    if (pin) {
+      const codec = await createPinLock(prefix, pin);
+      repository.setCodec(codec);
+      await repository.replaceAll(data);
+      codecRef.current = codec;
+    }
+    setHasPin(!!pin);
+    // As outras abas ainda leem com a chave antiga
+    tabChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    // O perfil em uso não pode ser excluído; troque de perfil antes
+    if (id === activeProfileId || profiles.length <= 1) return;
+    updateProfiles(profiles.filter(p => p.id !== id));
+    deleteProfileData(id).catch(() =>
+      setStorageError(new StorageError('O perfil saiu da lista, mas os dados dele não puderam ser apagados deste aparelho.', 'write-failed'))
+    );
+  };
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  if (isLocked) {
+    return (
+      <LockScreen 
+        key={activeProfileId}
+        profileId={activeProfileId}
+        profileName={profiles.length > 1 ? activeProfile?.name : undefined}
+        otherProfiles={profiles.filter(p => p.id !== activeProfileId)}
+        onUnlock={handleUnlock}
+        onForgotPin={handleForgotPin}
+        onSwitchProfile={handleSwitchProfile}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 selection:bg-amber-500/30 transition-colors duration-300">
       <main className="max-w-lg mx-auto min-h-screen">
+        {storageError && (
+          <div className="mx-4 mt-4 p-4 bg-rose-50 dark:bg-rose-950/30 border border-rose-200 dark:border-rose-800 rounded-2xl flex gap-3">
+            <AlertCircle size={20} className="text-rose-600 shrink-0" />
+            <div>
+              <p className="text-xs font-black text-rose-700 dark:text-rose-300">
+                {storageError.reason === 'write-failed' ? 'Falha ao salvar' : 'Não foi possível carregar seus dados'}
+              </p>
+              <p className="text-[10px] font-bold text-rose-600/80 dark:text-rose-400/80 mt-1">
+                {storageError.reason === 'newer-version'
+                  ? 'Eles foram salvos por uma versão mais nova do app. Atualize o aplicativo para continuar.'
+                  : storageError.message}
+                {storageError.reason !== 'write-failed' && ' Nenhuma alteração será gravada para não apagar o que está salvo.'}
+              </p>
+            </div>
+          </div>
+        )}
+        {isStorageBlocked && (
+          <div className="mx-4 mt-4 p-4 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-900/40 rounded-2xl flex gap-3">
+            <AlertCircle size={20} className="text-amber-600 shrink-0" />
+            <div>
+              <p className="text-xs font-black text-amber-700 dark:text-amber-300">Feche as outras abas do Meu Corre</p>
+              <p className="text-[10px] font-bold text-amber-600/80 dark:text-amber-400/80 mt-1">Uma aba com a versão antiga está impedindo a atualização. Seus dados aparecem assim que ela for fechada.</p>
+            </div>
+          </div>
+        )}
+        {waitingWorker && (
+          <div className="mx-4 mt-4 p-4 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-900/40 rounded-2xl flex items-center gap-3">
+            <RefreshCw size={20} className="text-amber-600 shrink-0" />
+            <div className="flex-1">
+              <p className="text-xs font-black text-amber-700 dark:text-amber-300">Nova versão disponível</p>
+              <p className="text-[10px] font-bold text-amber-600/80 dark:text-amber-400/80 mt-1">Atualize para usar as novidades. Seus dados continuam salvos.</p>
+            </div>
+            <button onClick={() => applyUpdate(waitingWorker)} className="px-3 py-2 bg-amber-500 text-white rounded-xl text-[10px] font-bold shrink-0">
+              Atualizar
+            </button>
+          </div>
+        )}
         {currentView === 'home' && (
           <div className="w-full">
             <Dashboard 
               transactions={transactions}
               fixedExpenses={fixedExpenses}
+              catalog={catalog}
+              templates={templates}
+              workLogs={workLogs}
+              shifts={shifts}
+              maintenancePlans={maintenancePlans}
+              accounts={accounts}
+              transfers={transfers}
               startDayOfMonth={goalSettings.startDayOfMonth}
               endDayOfMonth={goalSettings.endDayOfMonth}
               onAddTransaction={handleAddTransaction}
+              onQuickEntry={handleQuickEntry}
+              onSaveTemplate={handleSaveTemplate}
+              onSaveWorkLog={handleSaveWorkLog}
+              onSaveShift={handleSaveShift}
+              onAddTransfer={handleAddTransfer}
+              onDeleteTransfer={handleDeleteTransfer}
               onUpdateTransaction={handleUpdateTransaction}
               onDeleteTransaction={handleDeleteTransaction}
+              onBulkUpdateTransactions={handleBulkUpdateTransactions}
+              onBulkDeleteTransactions={handleBulkDeleteTransactions}
+              onSaveAttachment={handleSaveAttachment}
+              onLoadAttachment={handleLoadAttachment}
               onChangeView={setCurrentView}
+              profileName={profiles.length > 1 ? activeProfile?.name : undefined}
+            />
+          </div>
+        )}
+        {currentView === 'platforms' && (
+          <div className="px-4">
+            <PlatformReport
+              transactions={transactions}
+              catalog={catalog}
+              startDayOfMonth={goalSettings.startDayOfMonth}
+              endDayOfMonth={goalSettings.endDayOfMonth}
+              onBack={() => setCurrentView('home')}
+            />
+          </div>
+        )}
+        {currentView === 'search' && (
+          <div className="px-4">
+            <HistorySearch
+              transactions={transactions}
+              fixedExpenses={fixedExpenses}
+              catalog={catalog}
+              onBack={() => setCurrentView('home')}
+            />
+          </div>
+        )}
+        {currentView === 'fuel' && (
+          <div className="px-4">
+            <FuelLog
+              transactions={transactions}
+              catalog={catalog}
+              maintenancePlans={maintenancePlans}
+              onSaveMaintenancePlans={handleSaveMaintenancePlans}
+              onDeleteMaintenancePlan={handleDeleteMaintenancePlan}
+              onCompleteMaintenance={handleCompleteMaintenance}
+              onBack={() => setCurrentView('home')}
             />
           </div>
         )}
@@ -132,8 +639,11 @@ const App: React.FC = () => {
             <Goals 
               goalSettings={goalSettings}
               transactions={transactions}
-              onUpdateSettings={setGoalSettings}
+              onUpdateSettings={handleUpdateSettings}
               fixedExpenses={fixedExpenses}
+              workLogs={workLogs}
+              shifts={shifts}
+              onDeleteShift={handleDeleteShift}
             />
           </div>
         )}
@@ -141,7 +651,7 @@ const App: React.FC = () => {
           <div className="px-4">
             <YearlyGoals 
               goalSettings={goalSettings}
-              onUpdateSettings={setGoalSettings}
+              onUpdateSettings={handleUpdateSettings}
             />
           </div>
         )}
@@ -150,11 +660,16 @@ const App: React.FC = () => {
             <FixedExpenses 
               fixedExpenses={fixedExpenses}
               creditCards={creditCards}
+              catalog={catalog}
               startDayOfMonth={goalSettings.startDayOfMonth}
               endDayOfMonth={goalSettings.endDayOfMonth}
               onAddExpense={handleAddFixedExpense}
               onUpdateExpense={handleUpdateFixedExpense}
               onDeleteExpense={handleDeleteFixedExpense}
+              onDeleteOccurrence={handleDeleteOccurrence}
+              onTogglePaid={handleToggleFixedExpensePaid}
+              onSaveAttachment={handleSaveAttachment}
+              onLoadAttachment={handleLoadAttachment}
             />
           </div>
         )}
@@ -163,14 +678,44 @@ const App: React.FC = () => {
             <Settings 
               onClearData={handleClearData} 
               goalSettings={goalSettings}
-              onUpdateSettings={setGoalSettings}
+              onUpdateSettings={handleUpdateSettings}
               currentTheme={theme}
               onToggleTheme={toggleTheme}
               transactions={transactions}
+              fixedExpenses={fixedExpenses}
               creditCards={creditCards}
               onAddCard={handleAddCard}
               onUpdateCard={handleUpdateCard}
               onDeleteCard={handleDeleteCard}
+              catalog={catalog}
+              onSaveCatalogItem={handleSaveCatalogItem}
+              onMoveCatalogItem={handleMoveCatalogItem}
+              templates={templates}
+              onSaveTemplate={handleSaveTemplate}
+              onDeleteTemplate={handleDeleteTemplate}
+              accounts={accounts}
+              onSaveAccount={handleSaveAccount}
+              onExportBackup={handleExportBackup}
+              onImportBackup={handleImportBackup}
+              onImportTransactions={handleImportTransactions}
+              trash={trash}
+              onRestoreTrashItem={handleRestoreTrashItem}
+              onPurgeTrashItem={handlePurgeTrashItem}
+              onEmptyTrash={handleEmptyTrash}
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              onSwitchProfile={handleSwitchProfile}
+              onAddProfile={handleAddProfile}
+              onRenameProfile={handleRenameProfile}
+              onDeleteProfile={handleDeleteProfile}
+              syncConfig={sync.config}
+              syncStatus={sync.status}
+              syncError={sync.error}
+              lastSyncedAt={sync.lastSyncedAt}
+              onSaveSyncConfig={sync.updateConfig}
+              onSyncNow={sync.syncNow}
+              hasPin={hasPin}
+              onSetPin={handleSetPin}
             />
           </div>
         )}
@@ -180,6 +725,17 @@ const App: React.FC = () => {
         currentView={currentView} 
         onChangeView={setCurrentView} 
       />
+
+      {snackbar && (
+        <Snackbar 
+          key={snackbar.id}
+          message={snackbar.message}
+          actionLabel={snackbar.action === 'undo' ? 'Desfazer' : 'Refazer'}
+          actionIcon={snackbar.action === 'undo' ? <Undo2 size={14} /> : <Redo2 size={14} />}
+          onAction={snackbar.action === 'undo' ? handleUndo : handleRedo}
+          onClose={closeSnackbar}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from './ui/Card';
+import { AccountIcon } from './ui/AccountIcon';
+import { ArrowLeftRight, Wallet, X, Trash2, AlertCircle } from './Icons';
+import { Account, Transaction, Transfer } from '../types';
+import { formatCurrency, formatDate, getISODate, parseDateLocal } from '../utils';
+import { getAccounts, getAccountBalances } from '../services/accounts';
+import { v4 as uuidv4 } from 'uuid';
+
+interface AccountBalancesProps {
+  accounts: Account[];
+  transactions: Transaction[]; // Só os do ciclo
+  transfers: Transfer[];
+  paidFixedExpenses: number;
+  cycleStart: Date;
+  cycleEnd: Date;
+  onAddTransfer: (transfer: Transfer) => void;
+  onDeleteTransfer: (id: string) => void;
+}
+
+export const AccountBalances: React.FC<AccountBalancesProps> = ({ accounts, transactions, transfers, paidFixedExpenses, cycleStart, cycleEnd, onAddTransfer, onDeleteTransfer }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(getISODate(new Date()));
+  const [error, setError] = useState<string | null>(null);
+
+  const activeAccounts = getAccounts(accounts);
+
+  const cycleTransfers = useMemo(() => {
+    const start = getISODate(cycleStart);
+    const end = getISODate(cycleEnd);
+    return transfers.filter(t => t.date >= start && t.date <= end).sort((a, b) => b.date.localeCompare(a.date));
+  }, [transfers, cycleStart, cycleEnd]);
+
+  const rows = useMemo(() =>
+    getAccountBalances(accounts, transactions, cycleTransfers, paidFixedExpenses),
+    [accounts, transactions, cycleTransfers, paidFixedExpenses]);
+
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || 'Conta removida';
+
+  // Sacar da carteira do app para o banco é o caso comum, então a origem é a conta com mais saldo
+  const openForm = () => {
+    const richest = rows.filter(r => r.account && !r.account.archived).sort((a, b) => b.balance - a.balance)[0];
+    const from = richest?.account?.id || activeAccounts[0]?.id || '';
+    setFromAccountId(from);
+    setToAccountId(activeAccounts.find(a => a.id !== from && a.kind === 'bank')?.id || activeAccounts.find(a => a.id !== from)?.id || '');
+    setAmount('');
+    setDate(getISODate(new Date()));
+    setError(null);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value || value <= 0) return;
+    if (fromAccountId === toAccountId) {
+      setError('Escolha contas diferentes.');
+      return;
+    }
+    onAddTransfer({ id: uuidv4(), fromAccountId, toAccountId, amount: value, date });
+    setShowForm(false);
+  };
+
+  const selectClass = "w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs font-bold";
+  const labelClass = "text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1";
+
+  return (
+    <>
+      <Card title="Onde Está o Dinheiro" icon={<Wallet size={14} className="text-emerald-500" />} className="mx-1 p-4">
+        <div className="space-y-2">
+          {rows.map(row => (
+            <div key={row.account?.id || 'none'} className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2.5 min-w-0">
+                <div className="w-7 h-7 rounded-lg flex items-center justify-center shrink-0 bg-slate-100 dark:bg-slate-800 text-slate-500">
+                  {row.account ? <AccountIcon kind={row.account.kind} size={14} /> : <AlertCircle size={14} />}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">{row.account?.name || 'Sem conta'}</p>
+                  {(row.income > 0 || row.expense > 0 || row.transfers !== 0) && (
+                    <p className="text-[9px] font-bold text-slate-400 truncate">
+                      +{formatCurrency(row.income)} · −{formatCurrency(row.expense)}
+                      {row.transfers !== 0 && ` · ${row.transfers > 0 ? '+' : '−'}${formatCurrency(Math.abs(row.transfers))} transf.`}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <span className={`text-sm font-black shrink-0 ${row.balance < 0 ? 'text-rose-600' : 'text-slate-900 dark:text-white'}`}>
+                {formatCurrency(row.balance)}
+              </span>
+            </div>
+          ))}
+
+          {rows.some(row => !row.account) && (
+            <p className="text-[9px] font-bold text-slate-400">
+              "Sem conta" junta os lançamentos sem conta escolhida e as fixas pagas.
+            </p>
+          )}
+
+          {activeAccounts.length > 1 && (
+            <button onClick={openForm} className="w-full py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-[10px] font-black flex items-center justify-center gap-1.5 active:scale-95 transition-all">
+              <ArrowLeftRight size={12} />
+              Transferir entre contas
+            </button>
+          )}
+
+          {cycleTransfers.length > 0 && (
+            <div className="pt-1 space-y-1.5">
+              {cycleTransfers.map(transfer => (
+                <div key={transfer.id} className="flex items-center justify-between gap-2 px-2.5 py-1.5 rounded-xl bg-slate-50 dark:bg-slate-950">
+                  <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400 truncate">
+                    {formatDate(parseDateLocal(transfer.date))} · {accountName(transfer.fromAccountId)} → {accountName(transfer.toAccountId)}
+                  </p>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className="text-[10px] font-black text-slate-700 dark:text-slate-200">{formatCurrency(transfer.amount)}</span>
+                    <button onClick={() => onDeleteTransfer(transfer.id)} className="p-1 text-slate-300 hover:text-rose-500" aria-label="Excluir transferência">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {showForm && (
+        <div className="fixed inset-0 z-[60] flex items-end justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setShowForm(false)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-5 shadow-2xl animate-in slide-in-from-bottom border border-slate-200 dark:border-slate-800">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-black dark:text-white leading-none">Transferir</h3>
+              <button onClick={() => setShowForm(false)} className="bg-slate-100 dark:bg-slate-800 p-2 rounded-full text-slate-500"><X size={20} /></button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input type="number" step="0.01" required autoFocus value={amount} onChange={e => setAmount(e.target.value)} placeholder="0,00" className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl text-2xl font-black focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="space-y-1">
+                  <span className={labelClass}>De</span>
+                  <select value={fromAccountId} onChange={e => { setFromAccountId(e.target.value); setError(null); }} className={selectClass}>
+                    {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Para</span>
+                  <select value={toAccountId} onChange={e => { setToAccountId(e.target.value); setError(null); }} className={selectClass}>
+                    {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </label>
+              </div>
+              <input type="date" required value={date} onChange={e => setDate(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+              <p className="text-[9px] font-bold text-slate-400 px-1">
+                Transferência não é ganho nem gasto: só muda o dinheiro de conta, como o saque da carteira do app.
+              </p>
+              {error && (
+                <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+                  <AlertCircle size={14} className="shrink-0" />
+                  {error}
+                </div>
+              )}
+              <button type="submit" className="w-full py-4 rounded-2xl font-black text-sm text-white bg-emerald-600 shadow-xl active:scale-95 transition-all">Transferir</button>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
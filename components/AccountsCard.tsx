@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { AccountIcon, ACCOUNT_KIND_LABELS } from './ui/AccountIcon';
+import { Wallet, Edit2, Plus, Archive, RotateCcw, ChevronDown, ChevronUp, AlertCircle } from './Icons';
+import { Account, AccountKind, CatalogItem } from '../types';
+import { getAccounts, getNextAccountOrder } from '../services/accounts';
+import { getCatalogItems } from '../services/catalog';
+import { v4 as uuidv4 } from 'uuid';
+
+interface AccountsCardProps {
+  accounts: Account[];
+  catalog: CatalogItem[];
+  onSaveAccount: (account: Account) => void;
+}
+
+export const AccountsCard: React.FC<AccountsCardProps> = ({ accounts, catalog, onSaveAccount }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AccountKind>('wallet');
+  const [platformId, setPlatformId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const activeAccounts = getAccounts(accounts);
+  const archivedAccounts = getAccounts(accounts, true).filter(account => account.archived);
+  const platforms = getCatalogItems(catalog, 'platform');
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingAccount(null);
+    setName('');
+    setKind('wallet');
+    setPlatformId('');
+    setError(null);
+  };
+
+  const handleEdit = (account: Account) => {
+    setEditingAccount(account);
+    setName(account.name);
+    setKind(account.kind);
+    setPlatformId(account.platformId || '');
+    setError(null);
+    setShowForm(true);
+  };
+
+  // Escolher o app já sugere o nome da carteira
+  const handlePlatformChange = (id: string) => {
+    setPlatformId(id);
+    const platform = platforms.find(p => p.id === id);
+    if (platform && !name.trim()) setName(`Carteira ${platform.name}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (accounts.some(a => a.id !== editingAccount?.id && a.name.toLowerCase() === trimmed.toLowerCase())) {
+      setError('Já existe uma conta com esse nome.');
+      return;
+    }
+    // Cada app manda o ganho para uma carteira só, senão a sugestão de conta fica ambígua
+    const linked = kind === 'wallet' && platformId && accounts.find(a => a.id !== editingAccount?.id && !a.archived && a.platformId === platformId);
+    if (linked) {
+      setError(`Esse app já está ligado à conta ${linked.name}.`);
+      return;
+    }
+
+    onSaveAccount({
+      ...(editingAccount || { id: uuidv4(), order: getNextAccountOrder(accounts) }),
+      name: trimmed,
+      kind,
+      platformId: kind === 'wallet' && platformId ? platformId : undefined
+    });
+    resetForm();
+  };
+
+  const renderAccount = (account: Account) => (
+    <div key={account.id} className="flex items-center justify-between p-2.5 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-800">
+      <div className="flex items-center gap-2.5 min-w-0">
+        <div className="w-7 h-7 rounded-lg flex items-center justify-center shrink-0 bg-emerald-50 dark:bg-emerald-950/20 text-emerald-600">
+          <AccountIcon kind={account.kind} size={14} />
+        </div>
+        <div className="min-w-0">
+          <p className={`text-xs font-bold truncate ${account.archived ? 'text-slate-400 line-through' : 'text-slate-700 dark:text-slate-200'}`}>{account.name}</p>
+          <p className="text-[9px] font-bold text-slate-400 truncate">
+            {ACCOUNT_KIND_LABELS[account.kind]}
+            {account.platformId && ` · ganhos do ${catalog.find(item => item.id === account.platformId)?.name || 'app'}`}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center shrink-0">
+        {account.archived ? (
+          <button onClick={() => onSaveAccount({ ...account, archived: false })} className="p-1.5 text-slate-300 hover:text-emerald-500 transition-colors">
+            <RotateCcw size={14} />
+          </button>
+        ) : (
+          <>
+            <button onClick={() => handleEdit(account)} className="p-1.5 text-slate-300 hover:text-amber-500 transition-colors">
+              <Edit2 size={14} />
+            </button>
+            <button
+              onClick={() => onSaveAccount({ ...account, archived: true })}
+              disabled={activeAccounts.length === 1}
+              className="p-1.5 text-slate-300 hover:text-rose-500 disabled:opacity-30 transition-colors"
+            >
+              <Archive size={14} />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card title="Contas" icon={<Wallet size={16} className="text-emerald-500" />} className="p-5">
+      <div className="mt-1 space-y-2.5">
+        <p className="text-[10px] font-bold text-slate-400">
+          Onde o dinheiro fica: no bolso, no banco ou na carteira de cada app. Cada lançamento guarda a conta, e o Início mostra o saldo do ciclo em cada uma.
+          {' '}Arquivar tira dos formulários, mas mantém o histórico.
+        </p>
+
+        {activeAccounts.map(renderAccount)}
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="mt-3 p-3.5 border border-dashed border-slate-200 dark:border-slate-800 rounded-2xl space-y-3 animate-in slide-in-from-top-2">
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase">
+              {editingAccount ? 'Editar Conta' : 'Nova Conta'}
+            </h4>
+            <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+              {(Object.keys(ACCOUNT_KIND_LABELS) as AccountKind[]).map(k => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => { setKind(k); setError(null); }}
+                  className={`flex-1 py-2 rounded-lg text-[10px] font-bold transition-all ${kind === k ? 'bg-white dark:bg-slate-900 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+                >
+                  {ACCOUNT_KIND_LABELS[k]}
+                </button>
+              ))}
+            </div>
+            {kind === 'wallet' && (
+              <select
+                value={platformId}
+                onChange={e => { handlePlatformChange(e.target.value); setError(null); }}
+                className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs font-bold"
+              >
+                <option value="">Sem app ligado</option>
+                {platforms.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            )}
+            <input
+              autoFocus
+              type="text"
+              placeholder="Ex.: Carteira iFood, Nubank"
+              value={name}
+              onChange={e => { setName(e.target.value); setError(null); }}
+              className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs"
+            />
+
+            {error && (
+              <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+                <AlertCircle size={14} className="shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button type="submit" className="flex-1 bg-emerald-600 text-white py-2.5 rounded-xl font-bold text-[10px] shadow-lg">
+                {editingAccount ? 'Salvar' : 'Adicionar'}
+              </button>
+              <button type="button" onClick={resetForm} className="px-3 text-slate-400 text-[10px] font-bold">Cancelar</button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => { resetForm(); setShowForm(true); }}
+            className="w-full py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold transition-all"
+          >
+            <Plus size={12} />
+            Adicionar Conta
+          </button>
+        )}
+
+        {archivedAccounts.length > 0 && (
+          <div className="pt-1 space-y-2">
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="w-full flex items-center justify-between text-[10px] font-bold text-slate-400 uppercase"
+            >
+              Arquivadas ({archivedAccounts.length})
+              {showArchived ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            </button>
+            {showArchived && archivedAccounts.map(renderAccount)}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
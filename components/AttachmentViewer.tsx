@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, Camera, ImagePlus, Trash2, AlertCircle, Paperclip } from './Icons';
+
+interface AttachmentViewerProps {
+  title: string;
+  attachmentIds: string[];
+  onLoadAttachment: (id: string) => Promise<string | null>;
+  // Sem os callbacks abaixo, o visualizador é só leitura
+  onAddFiles?: (files: File[]) => Promise<void>;
+  onRemove?: (id: string) => void;
+  onClose: () => void;
+}
+
+export const AttachmentViewer: React.FC<AttachmentViewerProps> = ({
+  title, attachmentIds, onLoadAttachment, onAddFiles, onRemove, onClose
+}) => {
+  // null: a foto não está neste aparelho (ex.: anexada em outro aparelho sincronizado)
+  const [images, setImages] = useState<Record<string, string | null>>({});
+  const [index, setIndex] = useState(0);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const galleryInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    attachmentIds
+      .filter(id => !(id in images))
+      .forEach(id => {
+        onLoadAttachment(id)
+          .catch(err => {
+            if (!cancelled) setError(err instanceof Error ? err.message : 'Não foi possível abrir a foto.');
+            return null;
+          })
+          .then(dataUrl => {
+            if (!cancelled) setImages(prev => ({ ...prev, [id]: dataUrl }));
+          });
+      });
+    return () => { cancelled = true; };
+  }, [attachmentIds]);
+
+  // Mantém o índice válido depois de remover a última foto
+  useEffect(() => {
+    if (index >= attachmentIds.length) setIndex(Math.max(0, attachmentIds.length - 1));
+  }, [attachmentIds.length, index]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!onAddFiles || files.length === 0) return;
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      await onAddFiles(files);
+      setIndex(attachmentIds.length + files.length - 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível anexar a foto.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const currentId = attachmentIds[index];
+  const current = currentId === undefined ? undefined : images[currentId];
+
+  return (
+    <div className="fixed inset-0 z-[110] flex flex-col bg-slate-950/95 animate-in fade-in duration-200">
+      <div className="flex items-center justify-between p-4 text-white shrink-0">
+        <div className="min-w-0">
+          <h3 className="text-sm font-black truncate">{title}</h3>
+          <p className="text-[10px] font-bold text-white/50 uppercase tracking-widest">
+            {attachmentIds.length === 0 ? 'Nenhum comprovante' : `${index + 1} de ${attachmentIds.length}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {onRemove && currentId && (
+            <button onClick={() => onRemove(currentId)} className="p-2.5 rounded-full bg-white/10 text-rose-300 active:scale-90 transition-transform">
+              <Trash2 size={18} />
+            </button>
+          )}
+          <button onClick={onClose} className="p-2.5 rounded-full bg-white/10 text-white active:scale-90 transition-transform">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center relative px-4">
+        {attachmentIds.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 text-white/40">
+            <Paperclip size={36} />
+            <p className="text-xs font-bold text-center max-w-[220px]">Fotografe o cupom, a nota do mecânico ou o boleto para guardar junto do lançamento.</p>
+          </div>
+        ) : current === undefined ? (
+          <div className="w-8 h-8 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+        ) : current === null ? (
+          <div className="flex flex-col items-center gap-3 text-white/40">
+            <AlertCircle size={36} />
+            <p className="text-xs font-bold text-center max-w-[220px]">Esta foto foi anexada em outro aparelho e não está guardada neste.</p>
+          </div>
+        ) : (
+          <img src={current} alt={title} className="max-w-full max-h-full object-contain rounded-xl" />
+        )}
+
+        {index > 0 && (
+          <button onClick={() => setIndex(index - 1)} className="absolute left-2 p-2 rounded-full bg-white/10 text-white">
+            <ChevronLeft size={22} />
+          </button>
+        )}
+        {index < attachmentIds.length - 1 && (
+          <button onClick={() => setIndex(index + 1)} className="absolute right-2 p-2 rounded-full bg-white/10 text-white">
+            <ChevronRight size={22} />
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 pb-8 space-y-3 shrink-0">
+        {attachmentIds.length > 1 && (
+          <div className="flex gap-2 overflow-x-auto no-scrollbar">
+            {attachmentIds.map((id, i) => (
+              <button
+                key={id}
+                onClick={() => setIndex(i)}
+                className={`w-12 h-12 rounded-lg overflow-hidden shrink-0 border-2 bg-white/10 ${i === index ? 'border-amber-500' : 'border-transparent opacity-60'}`}
+              >
+                {images[id] && <img src={images[id]!} alt="" className="w-full h-full object-cover" />}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="text-[10px] text-rose-300 font-bold bg-rose-500/10 p-2.5 rounded-xl flex items-center gap-2">
+            <AlertCircle size={14} className="shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {onAddFiles && (
+          <div className="flex gap-2">
+            <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" onChange={handleFiles} className="hidden" />
+            <input ref={galleryInputRef} type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+            <button
+              onClick={() => cameraInputRef.current?.click()}
+              disabled={isAdding}
+              className="flex-1 py-3 rounded-xl bg-amber-500 text-white text-xs font-black flex items-center justify-center gap-2 disabled:opacity-40"
+            >
+              <Camera size={16} />
+              {isAdding ? 'Comprimindo...' : 'Fotografar'}
+            </button>
+            <button
+              onClick={() => galleryInputRef.current?.click()}
+              disabled={isAdding}
+              className="flex-1 py-3 rounded-xl bg-white/10 text-white text-xs font-black flex items-center justify-center gap-2 disabled:opacity-40"
+            >
+              <ImagePlus size={16} />
+              Da galeria
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
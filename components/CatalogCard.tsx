@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { CatalogIcon, CATALOG_ICONS } from './ui/CatalogIcon';
+import { Tag, Edit2, Plus, Archive, RotateCcw, ArrowUp, ArrowDown, ChevronDown, ChevronUp, AlertCircle } from './Icons';
+import { CatalogItem, CatalogKind } from '../types';
+import { CATALOG_COLORS } from '../constants';
+import { getCatalogItems, getNextCatalogOrder } from '../services/catalog';
+import { v4 as uuidv4 } from 'uuid';
+
+interface CatalogCardProps {
+  catalog: CatalogItem[];
+  onSaveItem: (item: CatalogItem) => void;
+  onMoveItem: (id: string, offset: -1 | 1) => void;
+}
+
+const KIND_LABELS: Record<CatalogKind, { tab: string; singular: string; newTitle: string; placeholder: string }> = {
+  category: { tab: 'Categorias', singular: 'Categoria', newTitle: 'Nova Categoria', placeholder: 'Ex.: Pedágio, Celular' },
+  platform: { tab: 'Apps', singular: 'App', newTitle: 'Novo App', placeholder: 'Ex.: Zé Delivery' }
+};
+
+export const CatalogCard: React.FC<CatalogCardProps> = ({ catalog, onSaveItem, onMoveItem }) => {
+  const [kind, setKind] = useState<CatalogKind>('category');
+  const [showForm, setShowForm] = useState(false);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(CATALOG_COLORS[0]);
+  const [icon, setIcon] = useState('tag');
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const activeItems = getCatalogItems(catalog, kind);
+  const archivedItems = getCatalogItems(catalog, kind, true).filter(item => item.archived);
+  const labels = KIND_LABELS[kind];
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingItem(null);
+    setName('');
+    setColor(CATALOG_COLORS[0]);
+    setIcon(kind === 'platform' ? 'smartphone' : 'tag');
+    setError(null);
+  };
+
+  const changeKind = (next: CatalogKind) => {
+    setKind(next);
+    setShowArchived(false);
+    resetForm();
+  };
+
+  const handleEdit = (item: CatalogItem) => {
+    setEditingItem(item);
+    setName(item.name);
+    setColor(item.color);
+    setIcon(item.icon);
+    setError(null);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    // Os registros guardam o nome, então dois itens do mesmo tipo não podem se chamar igual
+    const duplicate = catalog.some(item =>
+      item.kind === kind && item.id !== editingItem?.id && item.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) {
+      setError(`Já existe ${kind === 'category' ? 'uma categoria' : 'um app'} com esse nome.`);
+      return;
+    }
+
+    onSaveItem(editingItem
+      ? { ...editingItem, name: trimmed, color, icon }
+      : { id: uuidv4(), kind, name: trimmed, color, icon, order: getNextCatalogOrder(catalog, kind) });
+    resetForm();
+  };
+
+  const renderItem = (item: CatalogItem, index: number, items: CatalogItem[]) => (
+    <div key={item.id} className="flex items-center justify-between p-2.5 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-800">
+      <div className="flex items-center gap-2.5 min-w-0">
+        <div className="w-7 h-7 rounded-lg flex items-center justify-center text-white shrink-0" style={{ backgroundColor: item.color }}>
+          <CatalogIcon icon={item.icon} size={14} />
+        </div>
+        <span className={`text-xs font-bold truncate ${item.archived ? 'text-slate-400 line-through' : 'text-slate-700 dark:text-slate-200'}`}>{item.name}</span>
+      </div>
+      <div className="flex items-center shrink-0">
+        {item.archived ? (
+          <button
+            onClick={() => onSaveItem({ ...item, archived: false })}
+            className="p-1.5 text-slate-300 hover:text-emerald-500 transition-colors"
+          >
+            <RotateCcw size={14} />
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => onMoveItem(item.id, -1)}
+              disabled={index === 0}
+              className="p-1.5 text-slate-300 hover:text-slate-600 disabled:opacity-30 transition-colors"
+            >
+              <ArrowUp size={14} />
+            </button>
+            <button
+              onClick={() => onMoveItem(item.id, 1)}
+              disabled={index === items.length - 1}
+              className="p-1.5 text-slate-300 hover:text-slate-600 disabled:opacity-30 transition-colors"
+            >
+              <ArrowDown size={14} />
+            </button>
+            <button
+              onClick={() => handleEdit(item)}
+              className="p-1.5 text-slate-300 hover:text-amber-500 transition-colors"
+            >
+              <Edit2 size={14} />
+            </button>
+            <button
+              onClick={() => onSaveItem({ ...item, archived: true })}
+              className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors"
+            >
+              <Archive size={14} />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card title="Categorias e Apps" icon={<Tag size={16} className="text-rose-500" />} className="p-5">
+      <div className="mt-1 space-y-2.5">
+        <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+          {(Object.keys(KIND_LABELS) as CatalogKind[]).map(k => (
+            <button
+              key={k}
+              onClick={() => changeKind(k)}
+              className={`flex-1 py-2 rounded-lg text-[10px] font-bold transition-all ${kind === k ? 'bg-white dark:bg-slate-900 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+            >
+              {KIND_LABELS[k].tab}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-[10px] font-bold text-slate-400">
+          {kind === 'category'
+            ? 'Aparecem nos gastos e nas fixas. Renomear atualiza os lançamentos que já usam a categoria.'
+            : 'Aparecem nos ganhos. Renomear atualiza os lançamentos que já usam o app.'}
+          {' '}Arquivar tira dos formulários, mas mantém o histórico.
+        </p>
+
+        {activeItems.map((item, index) => renderItem(item, index, activeItems))}
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="mt-3 p-3.5 border border-dashed border-slate-200 dark:border-slate-800 rounded-2xl space-y-3 animate-in slide-in-from-top-2">
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase">
+              {editingItem ? `Editar ${labels.singular}` : labels.newTitle}
+            </h4>
+            <input
+              autoFocus
+              type="text"
+              placeholder={labels.placeholder}
+              value={name}
+              onChange={e => { setName(e.target.value); setError(null); }}
+              className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs"
+            />
+
+            <div className="flex flex-wrap gap-2">
+              {CATALOG_COLORS.map(c => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setColor(c)}
+                  className={`w-7 h-7 rounded-full border-2 transition-transform ${color === c ? 'scale-110 border-slate-400 dark:border-white' : 'border-transparent'}`}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+
+            <div className="grid grid-cols-6 gap-2">
+              {Object.keys(CATALOG_ICONS).map(key => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setIcon(key)}
+                  className={`h-9 rounded-xl flex items-center justify-center transition-all ${icon === key ? 'text-white shadow-sm' : 'bg-slate-100 dark:bg-slate-800 text-slate-400'}`}
+                  style={icon === key ? { backgroundColor: color } : undefined}
+                >
+                  <CatalogIcon icon={key} size={16} />
+                </button>
+              ))}
+            </div>
+
+            {error && (
+              <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+                <AlertCircle size={14} className="shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button type="submit" className="flex-1 bg-rose-500 text-white py-2.5 rounded-xl font-bold text-[10px] shadow-lg">
+                {editingItem ? 'Salvar' : 'Adicionar'}
+              </button>
+              <button type="button" onClick={resetForm} className="px-3 text-slate-400 text-[10px] font-bold">Cancelar</button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => { resetForm(); setShowForm(true); }}
+            className="w-full py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold transition-all"
+          >
+            <Plus size={12} />
+            Adicionar {labels.singular}
+          </button>
+        )}
+
+        {archivedItems.length > 0 && (
+          <div className="pt-1 space-y-2">
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="w-full flex items-center justify-between text-[10px] font-bold text-slate-400 uppercase"
+            >
+              Arquivados ({archivedItems.length})
+              {showArchived ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            </button>
+            {showArchived && archivedItems.map((item, index) => renderItem(item, index, archivedItems))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
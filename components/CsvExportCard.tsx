@@ -0,0 +1,98 @@
+import React, { useState, useMemo } from 'react';
+import { Card } from './ui/Card';
+import { ChevronLeft, ChevronRight, Download, FileSpreadsheet } from './Icons';
+import { Transaction, FixedExpense, CreditCard, Account } from '../types';
+import { getBillingPeriodRange, getISODate, parseDateLocal, downloadFile } from '../utils';
+import { buildCsv, getCsvFileName } from '../services/csv';
+
+interface CsvExportCardProps {
+  transactions: Transaction[];
+  fixedExpenses: FixedExpense[];
+  creditCards: CreditCard[];
+  accounts: Account[];
+  startDayOfMonth: number;
+  endDayOfMonth?: number;
+}
+
+type ExportMode = 'cycle' | 'range';
+
+export const CsvExportCard: React.FC<CsvExportCardProps> = ({
+  transactions, fixedExpenses, creditCards, accounts, startDayOfMonth, endDayOfMonth
+}) => {
+  const [mode, setMode] = useState<ExportMode>('cycle');
+  const [cycleDate, setCycleDate] = useState(new Date());
+  const [rangeStart, setRangeStart] = useState(() => {
+    const d = new Date();
+    return getISODate(new Date(d.getFullYear(), d.getMonth(), 1));
+  });
+  const [rangeEnd, setRangeEnd] = useState(getISODate(new Date()));
+
+  const cycleRange = useMemo(() =>
+    getBillingPeriodRange(cycleDate, startDayOfMonth, endDayOfMonth),
+    [cycleDate, startDayOfMonth, endDayOfMonth]
+  );
+
+  const { startDate, endDate } = useMemo(() => {
+    if (mode === 'cycle') return cycleRange;
+    const start = parseDateLocal(rangeStart);
+    const end = parseDateLocal(rangeEnd);
+    end.setHours(23, 59, 59, 999);
+    return { startDate: start, endDate: end };
+  }, [mode, cycleRange, rangeStart, rangeEnd]);
+
+  const isValidRange = !!rangeStart && !!rangeEnd && startDate <= endDate;
+
+  const cycleLabel = useMemo(() => {
+    const fmt = new Intl.DateTimeFormat('pt-BR', { day: '2-digit', month: 'short', year: '2-digit' });
+    return `${fmt.format(cycleRange.startDate)} - ${fmt.format(cycleRange.endDate)}`;
+  }, [cycleRange]);
+
+  const changeCycle = (offset: number) => {
+    const newDate = new Date(cycleDate);
+    newDate.setMonth(newDate.getMonth() + offset);
+    setCycleDate(newDate);
+  };
+
+  const handleExport = () => {
+    if (!isValidRange) return;
+    const csv = buildCsv({ transactions, fixedExpenses, creditCards, accounts, startDate, endDate });
+    downloadFile(csv, getCsvFileName(startDate, endDate), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <Card title="Planilha (CSV)" icon={<FileSpreadsheet size={16} className="text-blue-500" />} className="p-5">
+      <div className="mt-1 space-y-3">
+        <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+          <button type="button" onClick={() => setMode('cycle')} className={`flex-1 py-2 rounded-lg text-[10px] font-bold transition-all ${mode === 'cycle' ? 'bg-white dark:bg-slate-900 text-blue-600 shadow-sm' : 'text-slate-400'}`}>Ciclo</button>
+          <button type="button" onClick={() => setMode('range')} className={`flex-1 py-2 rounded-lg text-[10px] font-bold transition-all ${mode === 'range' ? 'bg-white dark:bg-slate-900 text-blue-600 shadow-sm' : 'text-slate-400'}`}>Período</button>
+        </div>
+
+        {mode === 'cycle' ? (
+          <div className="flex items-center justify-between bg-slate-50 dark:bg-slate-950 p-1 rounded-xl border border-slate-200 dark:border-slate-800">
+            <button onClick={() => changeCycle(-1)} className="p-1.5 text-slate-400 hover:text-slate-900 dark:hover:text-white rounded-lg transition-colors">
+              <ChevronLeft size={16} />
+            </button>
+            <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200">{cycleLabel}</span>
+            <button onClick={() => changeCycle(1)} className="p-1.5 text-slate-400 hover:text-slate-900 dark:hover:text-white rounded-lg transition-colors">
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <input type="date" value={rangeStart} onChange={e => setRangeStart(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-950 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs font-bold" />
+            <input type="date" value={rangeEnd} onChange={e => setRangeEnd(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-950 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs font-bold" />
+          </div>
+        )}
+
+        <button 
+          onClick={handleExport}
+          disabled={!isValidRange}
+          className="w-full py-2.5 bg-blue-600 disabled:opacity-40 text-white rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold shadow-lg"
+        >
+          <Download size={12} />
+          Baixar CSV
+        </button>
+      </div>
+    </Card>
+  );
+};
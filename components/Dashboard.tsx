@@ -2,35 +2,84 @@ import { GoogleGenAI } from "@google/genai";
 import React, { useState, useMemo, useEffect } from 'react';
 import { Card } from './ui/Card';
 import { ExpensePieChart } from './ui/PieChart';
-import { Transaction, TransactionType, ViewMode, FixedExpense } from '../types';
+import { Transaction, TransactionType, TransactionSplit, ViewMode, FixedExpense, CatalogItem, EntryTemplate, WorkLog, Shift, MaintenancePlan, Account, Transfer } from '../types';
 import { formatCurrency, formatDate, isSameDay, isSameWeek, getBillingPeriodRange, getISODate, getStartOfWeek, parseDateLocal, getFixedExpensesForPeriod } from '../utils';
-import { Wallet, TrendingUp, TrendingDown, Plus, X, Trash2, Calendar, Fuel, Utensils, Wrench, Home, AlertCircle, Smartphone, ShoppingBag, PieChart as PieIcon, Edit2, Info, Receipt, Clock, ChevronDown, ChevronUp } from './Icons';
+import { Wallet, TrendingUp, TrendingDown, Plus, X, Trash2, Calendar, Fuel, Utensils, Wrench, Home, AlertCircle, Smartphone, ShoppingBag, PieChart as PieIcon, Edit2, Info, Receipt, Search, ChevronDown, ChevronUp, ChevronRight, Users, Paperclip, Split, Zap, CheckCircle2, Circle, ListChecks } from './Icons';
 import { Logo } from './ui/Logo';
 import { v4 as uuidv4 } from 'uuid';
+import { OTHER_CATEGORY, EXTRA_CATEGORY_COLORS } from '../constants';
+import { findCatalogItem, getCatalogChips } from '../services/catalog';
+import { CatalogIcon } from './ui/CatalogIcon';
+import { AttachmentViewer } from './AttachmentViewer';
+import { WorkLogCard } from './WorkLogCard';
+import { AccountBalances } from './AccountBalances';
+import { AccountIcon } from './ui/AccountIcon';
+import { ShiftTimer } from './ShiftTimer';
+import { getCategoryAmounts, getCategoryNames, splitsMatchTotal, sumSplits } from '../services/splits';
+import { sortTemplatesByUsage } from '../services/templates';
+import { BulkEdit } from '../services/bulkEdit';
+import { buildFuelTanks, getFuelCategoryName, getFuelSpend, getOdometerBounds } from '../services/fuel';
+import { getAccounts, getPlatformWallet, suggestAccountId } from '../services/accounts';
+import { getOdometerReadings, getDailyKm, estimateOdometer, getMaintenanceStatus } from '../services/maintenance';
 
 interface DashboardProps {
   transactions: Transaction[];
   fixedExpenses: FixedExpense[];
+  catalog: CatalogItem[];
+  templates: EntryTemplate[];
+  workLogs: WorkLog[];
+  shifts: Shift[];
+  maintenancePlans: MaintenancePlan[];
+  accounts: Account[];
+  transfers: Transfer[];
   startDayOfMonth: number;
   endDayOfMonth?: number;
-  onAddTransaction: (t: Transaction) => void;
+  onAddTransaction: (t: Transaction, templateId?: string) => void;
+  onQuickEntry: (template: EntryTemplate) => void;
+  onSaveTemplate: (template: EntryTemplate) => void;
+  onSaveWorkLog: (log: WorkLog) => void;
+  onSaveShift: (shift: Shift, label: string) => void;
+  onAddTransfer: (transfer: Transfer) => void;
+  onDeleteTransfer: (id: string) => void;
   onUpdateTransaction: (t: Transaction) => void;
   onDeleteTransaction: (id: string) => void;
+  onBulkUpdateTransactions: (ids: string[], changes: BulkEdit) => void;
+  onBulkDeleteTransactions: (ids: string[]) => void;
+  onSaveAttachment: (file: File) => Promise<string>;
+  onLoadAttachment: (id: string) => Promise<string | null>;
   onChangeView: (view: ViewMode) => void;
+  profileName?: string; // Só é informado quando há mais de um perfil
 }
 
-const DELIVERY_APPS = ['iFood', '99', 'Rappi', 'Lalamove', 'Uber', 'Loggi', 'Borborema', 'Particular'];
-const EXPENSE_CATEGORIES = ['Combustível', 'Manutenção', 'Alimentação', 'Aluguel', 'Financiamento', 'Gastos na Rua', 'Outros'];
 const QUICK_AMOUNTS = [2, 5, 10, 20, 50, 100];
 
 export const Dashboard: React.FC<DashboardProps> = ({ 
   transactions, 
   fixedExpenses,
+  catalog,
+  templates,
+  workLogs,
+  shifts,
+  maintenancePlans,
+  accounts,
+  transfers,
   startDayOfMonth,
   endDayOfMonth,
   onAddTransaction, 
+  onQuickEntry,
+  onSaveTemplate,
+  onSaveWorkLog,
+  onSaveShift,
+  onAddTransfer,
+  onDeleteTransfer,
   onUpdateTransaction, 
-  onDeleteTransaction 
+  onDeleteTransaction,
+  onBulkUpdateTransactions,
+  onBulkDeleteTransactions,
+  onSaveAttachment,
+  onLoadAttachment,
+  onChangeView,
+  profileName
 }) => {
   const viewDate = useMemo(() => new Date(), []);
   const today = useMemo(() => {
@@ -51,6 +100,28 @@ export const Dashboard: React.FC<DashboardProps> = ({
   const [date, setDate] = useState(getISODate(new Date()));
   const [type, setType] = useState<TransactionType>('income');
   const [category, setCategory] = useState('');
+  const [platform, setPlatform] = useState('');
+  const [accountId, setAccountId] = useState('');
+  // Partes de um gasto dividido; os valores ficam como texto enquanto são digitados
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [splits, setSplits] = useState<{ category: string; amount: string }[]>([]);
+  const [splitError, setSplitError] = useState<string | null>(null);
+  // Atalho que abriu o formulário, para contar o uso ao salvar
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false);
+  // Abastecimento: odômetro e litros, só para gastos com combustível
+  const [odometer, setOdometer] = useState('');
+  const [liters, setLiters] = useState('');
+  const [partialFill, setPartialFill] = useState(false);
+  const [fuelError, setFuelError] = useState<string | null>(null);
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
+  const [showFormAttachments, setShowFormAttachments] = useState(false);
+  // Modo de seleção da linha do tempo; null quando desligado
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [bulkAction, setBulkAction] = useState<'date' | 'category' | 'platform' | 'account' | null>(null);
+  const [bulkDate, setBulkDate] = useState(getISODate(new Date()));
+  // Comprovantes abertos pela linha do tempo, só para ver
+  const [viewingAttachments, setViewingAttachments] = useState<Transaction | null>(null);
 
   useEffect(() => {
     const handleScroll = () => {
@@ -75,10 +146,16 @@ export const Dashboard: React.FC<DashboardProps> = ({
     return getFixedExpensesForPeriod(fixedExpenses, startDate, endDate);
   }, [fixedExpenses, startDate, endDate]);
 
+  const paidFixedTotal = useMemo(() =>
+    relevantFixed.filter(e => e.type === 'expense' && e.isPaid).reduce((acc, e) => acc + e.amount, 0),
+    [relevantFixed]);
+
   const balanceComposition = useMemo(() => {
     const manualItems = currentPeriodTransactions.map(t => ({
       id: t.id,
       description: t.description,
+      category: t.category,
+      splits: t.splits,
       amount: t.amount,
       type: t.type,
       date: t.date,
@@ -91,6 +168,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
       .map(e => ({
         id: e.id,
         description: e.title,
+        category: e.category,
+        splits: undefined,
         amount: e.amount,
         type: e.type,
         date: e.occurrenceDate,
@@ -143,9 +222,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
 
   const monthBalance = useMemo(() => {
     const manualBalance = currentPeriodTransactions.reduce((acc, t) => t.type === 'income' ? acc + t.amount : acc - t.amount, 0);
-    const paidFixedExpenses = relevantFixed.filter(e => e.type === 'expense' && e.isPaid).reduce((acc, e) => acc + e.amount, 0);
-    return manualBalance - paidFixedExpenses;
-  }, [currentPeriodTransactions, relevantFixed]);
+    return manualBalance - paidFixedTotal;
+  }, [currentPeriodTransactions, paidFixedTotal]);
 
   const monthGrossIncome = useMemo(() => {
     return currentPeriodTransactions.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0);
@@ -157,15 +235,42 @@ export const Dashboard: React.FC<DashboardProps> = ({
     return manualExpenses + paidFixedExpenses;
   }, [currentPeriodTransactions, relevantFixed]);
 
-  const monthFuelTotal = useMemo(() => {
-    const manualFuel = currentPeriodTransactions
-      .filter(t => t.type === 'expense' && t.description.toLowerCase().includes('combustível'))
-      .reduce((acc, t) => acc + t.amount, 0);
-    const fixedFuel = relevantFixed
-      .filter(e => e.type === 'expense' && e.category.toLowerCase().includes('combustível'))
-      .reduce((acc, e) => acc + e.amount, 0);
-    return manualFuel + fixedFuel;
-  }, [currentPeriodTransactions, relevantFixed]);
+  const fuelCategory = getFuelCategoryName(catalog);
+
+  const monthFuelTotal = useMemo(() =>
+    getFuelSpend(currentPeriodTransactions, relevantFixed, fuelCategory),
+    [currentPeriodTransactions, relevantFixed, fuelCategory]);
+
+  // Manutenções vencidas ou perto de vencer, para lembrar no Início
+  const dueMaintenance = useMemo(() => {
+    const readings = getOdometerReadings(transactions, maintenancePlans);
+    const dailyKm = getDailyKm(readings);
+    const odometer = estimateOdometer(readings, dailyKm, getISODate(new Date()));
+    return maintenancePlans
+      .map(plan => ({ plan, status: getMaintenanceStatus(plan, odometer, dailyKm) }))
+      .filter(({ status }) => status.state !== 'ok');
+  }, [transactions, maintenancePlans]);
+
+  const lastFuelTank = useMemo(() => buildFuelTanks(transactions, fuelCategory).pop(), [transactions, fuelCategory]);
+
+  // Gastos do ciclo por categoria, somando lançamentos e fixas pagas. Gastos divididos entram por parte
+  const expensesByCategory = useMemo(() => {
+    const totals: Record<string, number> = {};
+    balanceComposition
+      .filter(item => item.type === 'expense')
+      .flatMap(getCategoryAmounts)
+      .forEach(part => {
+        const category = part.category || OTHER_CATEGORY;
+        totals[category] = (totals[category] || 0) + part.amount;
+      });
+
+    let extraColor = 0;
+    return Object.entries(totals).map(([label, value]) => ({
+      label,
+      value,
+      color: findCatalogItem(catalog, 'category', label)?.color || EXTRA_CATEGORY_COLORS[extraColor++ % EXTRA_CATEGORY_COLORS.length]
+    }));
+  }, [balanceComposition, catalog]);
 
   // --- Linha do Tempo: Agrupamento por Semana e Dia ---
   const weeklyHistory = useMemo(() => {
@@ -241,14 +346,50 @@ export const Dashboard: React.FC<DashboardProps> = ({
     if (navigator.vibrate) navigator.vibrate(15);
   };
 
-  const getTransactionIcon = (t: { description: string, type: string, isFixed?: boolean }) => {
-    const text = t.description.toLowerCase();
+  const getTransactionIcon = (t: { category?: string, type: string, isFixed?: boolean, isSplit?: boolean }) => {
     if (t.type === 'income') return <Smartphone size={16} />;
-    if (text.includes('gasolina') || text.includes('posto') || text.includes('combustível')) return <Fuel size={16} />;
+    if (t.isSplit) return <Split size={16} />;
+    const categoryItem = findCatalogItem(catalog, 'category', t.category);
+    if (categoryItem) return <CatalogIcon icon={categoryItem.icon} size={16} />;
     if (t.isFixed) return <Receipt size={16} />;
     return <TrendingDown size={16} />;
   };
 
+  const toggleSelected = (ids: string[]) => {
+    if (!selectedIds) return;
+    const next = new Set(selectedIds);
+    // Tocar num dia já todo marcado desmarca o dia inteiro
+    const allSelected = ids.every(id => next.has(id));
+    ids.forEach(id => allSelected ? next.delete(id) : next.add(id));
+    setSelectedIds(next);
+  };
+
+  const handleRowClick = (t: Transaction) => {
+    if (selectedIds) toggleSelected([t.id]);
+    else handleOpenForm(t);
+  };
+
+  const exitSelection = () => {
+    setSelectedIds(null);
+    setBulkAction(null);
+  };
+
+  const selectedTransactions = selectedIds ? transactions.filter(t => selectedIds.has(t.id)) : [];
+  const selectedExpenseCount = selectedTransactions.filter(t => t.type === 'expense').length;
+  const selectedIncomeCount = selectedTransactions.length - selectedExpenseCount;
+
+  const applyBulk = (changes: BulkEdit) => {
+    onBulkUpdateTransactions(selectedTransactions.map(t => t.id), changes);
+    exitSelection();
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedTransactions.length;
+    if (!window.confirm(`Mover ${count} ${count === 1 ? 'lançamento' : 'lançamentos'} para a lixeira?`)) return;
+    onBulkDeleteTransactions(selectedTransactions.map(t => t.id));
+    exitSelection();
+  };
+
   const handleDelete = (id: string) => {
     if (window.confirm('Tem certeza que deseja excluir este lançamento?')) {
       onDeleteTransaction(id);
@@ -259,15 +400,16 @@ export const Dashboard: React.FC<DashboardProps> = ({
     if (t) {
       setEditingId(t.id);
       setAmount(t.amount.toString());
-      if (t.description.includes(' - ')) {
-        const parts = t.description.split(' - ');
-        const cat = parts.pop() || '';
-        setCategory(cat);
-        setDescription(parts.join(' - '));
-      } else {
-        setDescription(t.description);
-        setCategory('');
-      }
+      setDescription(t.description);
+      setCategory(t.category || '');
+      setPlatform(t.platform || '');
+      setAccountId(t.accountId || '');
+      setIsSplitting(!!t.splits?.length);
+      setSplits((t.splits || []).map(split => ({ category: split.category, amount: split.amount.toString() })));
+      setAttachmentIds(t.attachmentIds || []);
+      setOdometer(t.fuel?.odometer ? t.fuel.odometer.toString() : '');
+      setLiters(t.fuel?.liters ? t.fuel.liters.toString() : '');
+      setPartialFill(!!t.fuel?.partial);
       setDate(t.date.split('T')[0]);
       setType(t.type);
     } else {
@@ -277,23 +419,140 @@ export const Dashboard: React.FC<DashboardProps> = ({
       setDate(getISODate(new Date()));
       setType('income');
       setCategory('');
+      setPlatform('');
+      setAccountId(suggestAccountId(accounts, catalog, transactions, 'income') || '');
+      setIsSplitting(false);
+      setSplits([]);
+      setAttachmentIds([]);
+      setOdometer('');
+      setLiters('');
+      setPartialFill(false);
     }
+    setSplitError(null);
+    setFuelError(null);
+    setActiveTemplateId(null);
+    setSaveAsTemplate(false);
+    setShowFormAttachments(false);
     setShowForm(true);
   };
 
+  // Com valor, o atalho lança direto; sem valor, abre o formulário só esperando o valor
+  const handleUseTemplate = (template: EntryTemplate) => {
+    if (navigator.vibrate) navigator.vibrate(15);
+    if (template.amount) {
+      onQuickEntry(template);
+      return;
+    }
+    handleOpenForm();
+    setType(template.type);
+    setDescription(template.name);
+    setCategory(template.category || '');
+    setPlatform(template.platform || '');
+    setAccountId(template.accountId || suggestAccountId(accounts, catalog, transactions, template.type, template.platform) || '');
+    setActiveTemplateId(template.id);
+  };
+
+  // Num lançamento novo, a conta acompanha o tipo e a carteira ligada ao app escolhido
+  const selectType = (next: TransactionType) => {
+    setType(next);
+    if (!editingId) setAccountId(suggestAccountId(accounts, catalog, transactions, next, next === 'income' ? platform : undefined) || '');
+  };
+
+  const selectPlatform = (next: string) => {
+    setPlatform(next);
+    const wallet = getPlatformWallet(accounts, catalog, next);
+    if (wallet && !editingId) setAccountId(wallet.id);
+  };
+
+  // Quanto falta (ou passou) para as partes fecharem com o total
+  const splitRemainder = (parseFloat(amount) || 0) - splits.reduce((acc, split) => acc + (parseFloat(split.amount) || 0), 0);
+
+  const updateSplit = (index: number, changes: Partial<{ category: string; amount: string }>) => {
+    setSplits(splits.map((split, i) => i === index ? { ...split, ...changes } : split));
+    setSplitError(null);
+  };
+
+  const addSplit = () =>
+    setSplits([...splits, { category: '', amount: splitRemainder > 0 ? splitRemainder.toFixed(2) : '' }]);
+
+  // A categoria escolhida vira a primeira parte, e o restante fica para a segunda
+  const startSplitting = () => {
+    setSplits([{ category, amount }, { category: '', amount: '' }]);
+    setSplitError(null);
+    setIsSplitting(true);
+  };
+
+  const stopSplitting = () => {
+    setCategory(splits.find(split => split.category)?.category || '');
+    setSplitError(null);
+    setIsSplitting(false);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!amount || !description) return;
-    const finalDesc = category ? `${description} - ${category}` : description;
+    const total = parseFloat(amount);
+    let parsedSplits: TransactionSplit[] | undefined;
+    if (type === 'expense' && isSplitting) {
+      parsedSplits = splits
+        .map(split => ({ category: split.category, amount: parseFloat(split.amount) || 0 }))
+        .filter(split => split.amount > 0);
+      const error = parsedSplits.length < 2 ? 'Divida em pelo menos duas partes com valor.'
+        : parsedSplits.some(split => !split.category) ? 'Escolha a categoria de cada parte.'
+        : !splitsMatchTotal(parsedSplits, total) ? `As partes somam ${formatCurrency(sumSplits(parsedSplits))}, mas o total é ${formatCurrency(total)}.`
+        : null;
+      if (error) {
+        setSplitError(error);
+        return;
+      }
+    }
+
+    const isFuelExpense = type === 'expense' && (parsedSplits ? parsedSplits.some(split => split.category === fuelCategory) : category === fuelCategory);
+    const parsedOdometer = isFuelExpense ? parseFloat(odometer.replace(',', '.')) || undefined : undefined;
+    const parsedLiters = isFuelExpense ? parseFloat(liters.replace(',', '.')) || undefined : undefined;
+    if (parsedOdometer) {
+      const { min, max } = getOdometerBounds(transactions, date, fuelCategory, editingId || undefined);
+      const error = min !== undefined && parsedOdometer < min ? `O odômetro não pode ser menor que o do abastecimento anterior (${min.toLocaleString('pt-BR')} km).`
+        : max !== undefined && parsedOdometer > max ? `O odômetro não pode passar o do abastecimento seguinte (${max.toLocaleString('pt-BR')} km).`
+        : null;
+      if (error) {
+        setFuelError(error);
+        return;
+      }
+    }
+
+    // Mantém campos que o formulário não edita, como o vínculo com o extrato bancário
+    const existing = editingId ? transactions.find(t => t.id === editingId) : undefined;
     const transactionData: Transaction = {
+      ...existing,
       id: editingId || uuidv4(),
-      amount: parseFloat(amount),
-      description: finalDesc,
+      amount: total,
+      description,
+      // Ganhos levam o app; gastos, a categoria ou as partes quando divididos
+      category: type === 'expense' && !parsedSplits && category ? category : undefined,
+      splits: parsedSplits,
+      platform: type === 'income' && platform ? platform : undefined,
+      attachmentIds: attachmentIds.length > 0 ? attachmentIds : undefined,
+      accountId: accountId || undefined,
+      fuel: parsedOdometer || parsedLiters ? { odometer: parsedOdometer, liters: parsedLiters, partial: partialFill || undefined } : undefined,
       date: date, 
       type,
     };
     if (editingId) onUpdateTransaction(transactionData);
-    else onAddTransaction(transactionData);
+    else onAddTransaction(transactionData, activeTemplateId || undefined);
+    if (!editingId && saveAsTemplate && !parsedSplits) {
+      onSaveTemplate({
+        id: uuidv4(),
+        name: description,
+        type,
+        amount: total,
+        category: transactionData.category,
+        platform: transactionData.platform,
+        accountId: transactionData.accountId,
+        usageCount: 1,
+        lastUsedAt: new Date().toISOString()
+      });
+    }
     setShowForm(false);
   };
 
@@ -303,9 +562,16 @@ export const Dashboard: React.FC<DashboardProps> = ({
       <div className="bg-emerald-600 dark:bg-emerald-700 w-full pt-8 pb-8 px-6 flex flex-col gap-8 shadow-lg">
         <header className="flex items-center justify-between">
           <Logo variant="light" />
-          <div className="w-10 h-10 rounded-2xl bg-white/20 flex items-center justify-center text-white backdrop-blur-md">
-            <Home size={20} />
-          </div>
+          {profileName ? (
+            <div className="h-10 px-3 rounded-2xl bg-white/20 flex items-center gap-2 text-white backdrop-blur-md max-w-[45%]">
+              <Users size={16} className="shrink-0" />
+              <span className="text-xs font-bold truncate">{profileName}</span>
+            </div>
+          ) : (
+            <div className="w-10 h-10 rounded-2xl bg-white/20 flex items-center justify-center text-white backdrop-blur-md">
+              <Home size={20} />
+            </div>
+          )}
         </header>
 
         <div className="flex items-center justify-between">
@@ -334,9 +600,48 @@ export const Dashboard: React.FC<DashboardProps> = ({
         {/* RESUMOS RÁPIDOS */}
         <div className="grid grid-cols-2 gap-2">
           <Card title="Ganhos da Semana" value={formatCurrency(weekBalance)} icon={<TrendingUp size={14} className="text-emerald-500"/>} valueClassName="text-base" className="shadow-sm border-slate-200 dark:border-slate-800" />
-          <Card title="Combustível (Ciclo)" value={formatCurrency(monthFuelTotal)} icon={<Fuel size={14} className="text-amber-500" />} valueClassName="text-base" className="shadow-sm border-slate-200 dark:border-slate-800" />
+          <Card
+            title="Combustível (Ciclo)"
+            value={formatCurrency(monthFuelTotal)}
+            subtitle={lastFuelTank?.kmPerLiter ? `${lastFuelTank.isDrop ? '⚠️ ' : ''}Último tanque: ${lastFuelTank.kmPerLiter.toFixed(1).replace('.', ',')} km/l` : 'Anote o odômetro para ver o km/l'}
+            onClick={() => onChangeView('fuel')}
+            icon={<Fuel size={14} className="text-amber-500" />}
+            valueClassName="text-base"
+            className="shadow-sm border-slate-200 dark:border-slate-800"
+          />
         </div>
 
+        {/* SALDO DO CICLO POR CONTA */}
+        <AccountBalances
+          accounts={accounts}
+          transactions={currentPeriodTransactions}
+          transfers={transfers}
+          paidFixedExpenses={paidFixedTotal}
+          cycleStart={startDate}
+          cycleEnd={endDate}
+          onAddTransfer={onAddTransfer}
+          onDeleteTransfer={onDeleteTransfer}
+        />
+
+        {/* LEMBRETE DE MANUTENÇÃO */}
+        {dueMaintenance.length > 0 && (
+          <button
+            onClick={() => onChangeView('fuel')}
+            className={`mx-1 p-3 rounded-2xl border flex items-center gap-3 text-left active:scale-[0.98] transition-all ${dueMaintenance.some(({ status }) => status.state === 'overdue') ? 'bg-rose-50 dark:bg-rose-950/20 border-rose-200 dark:border-rose-900/50' : 'bg-amber-50 dark:bg-amber-950/20 border-amber-200 dark:border-amber-900/50'}`}
+          >
+            <Wrench size={16} className={dueMaintenance.some(({ status }) => status.state === 'overdue') ? 'text-rose-500 shrink-0' : 'text-amber-500 shrink-0'} />
+            <div className="min-w-0 flex-1">
+              <p className="text-xs font-black text-slate-800 dark:text-slate-100 truncate">
+                {dueMaintenance.map(({ plan }) => plan.name).join(', ')}
+              </p>
+              <p className="text-[9px] font-bold text-slate-500 dark:text-slate-400">
+                {dueMaintenance.some(({ status }) => status.state === 'overdue') ? 'Manutenção vencida' : 'Manutenção chegando'} · toque para ver
+              </p>
+            </div>
+            <ChevronRight size={16} className="text-slate-400 shrink-0" />
+          </button>
+        )}
+
         {/* --- CARD DE GANHOS DE HOJE --- */}
         <div className="px-1">
            <div className="p-4 rounded-3xl border flex items-center justify-between shadow-md transition-colors bg-emerald-50 dark:bg-emerald-950/20 border-emerald-200 dark:border-emerald-800">
@@ -358,6 +663,65 @@ export const Dashboard: React.FC<DashboardProps> = ({
            </div>
         </div>
 
+        {/* ATALHOS DE LANÇAMENTO */}
+        <div className="flex gap-2 overflow-x-auto no-scrollbar px-1 py-0.5">
+          {sortTemplatesByUsage(templates).map(template => {
+            const item = template.type === 'income'
+              ? findCatalogItem(catalog, 'platform', template.platform)
+              : findCatalogItem(catalog, 'category', template.category);
+            return (
+              <button
+                key={template.id}
+                onClick={() => handleUseTemplate(template)}
+                className={`shrink-0 pl-1.5 pr-3 py-1.5 rounded-2xl border shadow-sm flex items-center gap-2 active:scale-95 transition-all bg-white dark:bg-slate-900 ${template.type === 'income' ? 'border-emerald-100 dark:border-emerald-950/30' : 'border-rose-100 dark:border-rose-950/30'}`}
+              >
+                <div
+                  className={`w-7 h-7 rounded-xl flex items-center justify-center ${item ? 'text-white' : template.type === 'income' ? 'bg-emerald-50 dark:bg-emerald-950/20 text-emerald-600' : 'bg-rose-50 dark:bg-rose-950/20 text-rose-600'}`}
+                  style={item ? { backgroundColor: item.color } : undefined}
+                >
+                  {item ? <CatalogIcon icon={item.icon} size={14} /> : <Zap size={14} />}
+                </div>
+                <div className="text-left">
+                  <p className="text-[10px] font-black text-slate-800 dark:text-slate-100 leading-none mb-0.5 whitespace-nowrap">{template.name}</p>
+                  <p className={`text-[9px] font-black leading-none ${template.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {template.amount ? `${template.type === 'income' ? '+' : '-'}${formatCurrency(template.amount)}` : 'Digitar valor'}
+                  </p>
+                </div>
+              </button>
+            );
+          })}
+          <button
+            onClick={() => { handleOpenForm(); setSaveAsTemplate(true); }}
+            className="shrink-0 px-3 py-1.5 rounded-2xl border border-dashed border-slate-300 dark:border-slate-700 text-slate-400 text-[10px] font-black flex items-center gap-1.5"
+          >
+            <Plus size={12} />
+            {templates.length === 0 ? 'Criar atalho de lançamento' : 'Atalho'}
+          </button>
+        </div>
+
+        {/* TURNO: CRONÔMETRO COM PAUSAS */}
+        <ShiftTimer shifts={shifts} onSaveShift={onSaveShift} />
+
+        {/* DIÁRIO DO CORRE: ENTREGAS, KM E HORAS */}
+        <WorkLogCard workLogs={workLogs} transactions={transactions} cycleStart={startDate} cycleEnd={endDate} onSaveWorkLog={onSaveWorkLog} />
+
+        {/* RELATÓRIO POR APP */}
+        <button
+          onClick={() => onChangeView('platforms')}
+          className="mx-1 p-3.5 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm flex items-center justify-between active:scale-[0.99] transition-all"
+        >
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl flex items-center justify-center bg-amber-50 dark:bg-amber-950/20 text-amber-600">
+              <Smartphone size={16} />
+            </div>
+            <div className="text-left">
+              <p className="text-xs font-black text-slate-800 dark:text-slate-100 leading-none mb-1">Ganhos por App</p>
+              <p className="text-[8px] font-bold text-slate-400 uppercase tracking-tighter">Qual app vale mais a pena</p>
+            </div>
+          </div>
+          <ChevronRight size={16} className="text-slate-400" />
+        </button>
+
         {/* GRÁFICO */}
         <div className="mt-4 px-1">
           <h2 className="text-[9px] font-black text-slate-400 dark:text-slate-500 mb-6 uppercase tracking-[0.2em] text-center">Desempenho Semanal</h2>
@@ -382,11 +746,34 @@ export const Dashboard: React.FC<DashboardProps> = ({
           </div>
         </div>
 
+        {/* GASTOS POR CATEGORIA */}
+        {expensesByCategory.length > 0 && (
+          <div className="mt-8 px-1">
+            <h2 className="text-[9px] font-black text-slate-400 dark:text-slate-500 mb-2 uppercase tracking-[0.2em] text-center">Gastos do Ciclo por Categoria</h2>
+            <ExpensePieChart data={expensesByCategory} />
+          </div>
+        )}
+
         {/* --- LINHA DO TEMPO DO CORRE (VALORES INDIVIDUAIS SEM CÁLCULO) --- */}
         <div className="space-y-4 mt-10">
            <div className="flex items-center justify-between px-2">
               <h2 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em]">Histórico do Corre</h2>
-              <Clock size={14} className="text-slate-300" />
+              <div className="flex items-center gap-1.5">
+                <button
+                  onClick={() => selectedIds ? exitSelection() : setSelectedIds(new Set())}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-tighter shadow-sm active:scale-95 transition-all ${selectedIds ? 'bg-slate-900 dark:bg-white border-slate-900 dark:border-white text-white dark:text-slate-900' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500'}`}
+                >
+                  <ListChecks size={12} />
+                  {selectedIds ? 'Cancelar' : 'Selecionar'}
+                </button>
+                <button
+                  onClick={() => onChangeView('search')}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-[9px] font-black text-slate-500 uppercase tracking-tighter shadow-sm active:scale-95 transition-all"
+                >
+                  <Search size={12} />
+                  Buscar
+                </button>
+              </div>
            </div>
 
            <div className="space-y-4 pb-12">
@@ -437,6 +824,14 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                       <span className="text-[10px] font-black text-slate-900 dark:text-slate-100 uppercase tracking-[0.1em]">
                                         {parseDateLocal(day.date).toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: 'short' })}
                                       </span>
+                                      {selectedIds && (
+                                        <button
+                                          onClick={() => toggleSelected([...day.incomeTransactions, ...day.expenseTransactions].map(t => t.id))}
+                                          className="text-[8px] font-black text-amber-600 uppercase tracking-tighter px-2 py-0.5 rounded-full bg-amber-50 dark:bg-amber-950/20"
+                                        >
+                                          Dia todo
+                                        </button>
+                                      )}
                                    </div>
                                    {/* VALORES SEPARADOS NO CABEÇALHO DO DIA */}
                                    <div className="flex items-center gap-1.5 overflow-x-auto no-scrollbar">
@@ -455,15 +850,17 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                      <div className="space-y-1.5">
                                         <p className="text-[7px] font-black text-emerald-600/60 uppercase tracking-widest pl-2 mb-1">Ganhos</p>
                                         {day.incomeTransactions.map((t) => (
-                                          <div key={t.id} className="p-3 bg-white dark:bg-slate-900 border border-emerald-100 dark:border-emerald-950/30 rounded-2xl flex items-center justify-between group transition-all shadow-sm">
-                                             <div className="flex items-center gap-3 min-w-0" onClick={() => handleOpenForm(t)}>
+                                          <div key={t.id} onClick={() => selectedIds && toggleSelected([t.id])} className={`p-3 bg-white dark:bg-slate-900 border rounded-2xl flex items-center justify-between group transition-all shadow-sm ${selectedIds?.has(t.id) ? 'border-amber-500 ring-2 ring-amber-500/30' : 'border-emerald-100 dark:border-emerald-950/30'}`}>
+                                             <div className="flex items-center gap-3 min-w-0" onClick={(e) => { e.stopPropagation(); handleRowClick(t); }}>
+                                                {selectedIds && (selectedIds.has(t.id) ? <CheckCircle2 size={18} className="text-amber-500 shrink-0" /> : <Circle size={18} className="text-slate-300 shrink-0" />)}
                                                 <div className="w-9 h-9 rounded-xl flex items-center justify-center shrink-0 bg-emerald-50 dark:bg-emerald-950/20 text-emerald-600">
-                                                   {getTransactionIcon({ description: t.description, type: t.type })}
+                                                   {getTransactionIcon({ category: t.category, type: t.type })}
                                                 </div>
                                                 <div className="min-w-0">
                                                    <p className="text-xs font-black text-slate-800 dark:text-slate-100 leading-none mb-1 truncate">{t.description}</p>
                                                    <p className="text-[8px] font-bold text-slate-400 uppercase tracking-tighter">
                                                       {new Date(t.date).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                                                      {t.platform && ` · ${t.platform}`}
                                                    </p>
                                                 </div>
                                              </div>
@@ -471,7 +868,10 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                                 <span className="text-sm font-black tracking-tight text-emerald-600">
                                                    +{formatCurrency(t.amount)}
                                                 </span>
-                                                <div className="flex items-center gap-0.5">
+                                                <div className={`flex items-center gap-0.5 ${selectedIds ? 'hidden' : ''}`}>
+                                                   {t.attachmentIds && t.attachmentIds.length > 0 && (
+                                                     <button onClick={(e) => { e.stopPropagation(); setViewingAttachments(t); }} className="p-1.5 text-slate-400 hover:text-amber-500 active:scale-90 transition-all"><Paperclip size={12} /></button>
+                                                   )}
                                                    <button onClick={(e) => { e.stopPropagation(); handleOpenForm(t); }} className="p-1.5 text-slate-300 hover:text-amber-500 active:scale-90 transition-all"><Edit2 size={12} /></button>
                                                    <button onClick={(e) => { e.stopPropagation(); handleDelete(t.id); }} className="p-1.5 text-slate-300 hover:text-rose-500 active:scale-90 transition-all"><Trash2 size={12} /></button>
                                                 </div>
@@ -486,15 +886,17 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                      <div className="space-y-1.5">
                                         <p className="text-[7px] font-black text-rose-600/60 uppercase tracking-widest pl-2 mb-1">Gastos</p>
                                         {day.expenseTransactions.map((t) => (
-                                          <div key={t.id} className="p-3 bg-white dark:bg-slate-900 border border-rose-100 dark:border-rose-950/30 rounded-2xl flex items-center justify-between group transition-all shadow-sm">
-                                             <div className="flex items-center gap-3 min-w-0" onClick={() => handleOpenForm(t)}>
+                                          <div key={t.id} onClick={() => selectedIds && toggleSelected([t.id])} className={`p-3 bg-white dark:bg-slate-900 border rounded-2xl flex items-center justify-between group transition-all shadow-sm ${selectedIds?.has(t.id) ? 'border-amber-500 ring-2 ring-amber-500/30' : 'border-rose-100 dark:border-rose-950/30'}`}>
+                                             <div className="flex items-center gap-3 min-w-0" onClick={(e) => { e.stopPropagation(); handleRowClick(t); }}>
+                                                {selectedIds && (selectedIds.has(t.id) ? <CheckCircle2 size={18} className="text-amber-500 shrink-0" /> : <Circle size={18} className="text-slate-300 shrink-0" />)}
                                                 <div className="w-9 h-9 rounded-xl flex items-center justify-center shrink-0 bg-rose-50 dark:bg-rose-950/20 text-rose-600">
-                                                   {getTransactionIcon({ description: t.description, type: t.type })}
+                                                   {getTransactionIcon({ category: t.category, type: t.type, isSplit: !!t.splits?.length })}
                                                 </div>
                                                 <div className="min-w-0">
                                                    <p className="text-xs font-black text-slate-800 dark:text-slate-100 leading-none mb-1 truncate">{t.description}</p>
-                                                   <p className="text-[8px] font-bold text-slate-400 uppercase tracking-tighter">
+                                                   <p className="text-[8px] font-bold text-slate-400 uppercase tracking-tighter truncate">
                                                       {new Date(t.date).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                                                      {getCategoryNames(t).length > 0 && ` · ${getCategoryNames(t).join(' + ')}`}
                                                    </p>
                                                 </div>
                                              </div>
@@ -502,7 +904,10 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                                 <span className="text-sm font-black tracking-tight text-rose-600">
                                                    -{formatCurrency(t.amount)}
                                                 </span>
-                                                <div className="flex items-center gap-0.5">
+                                                <div className={`flex items-center gap-0.5 ${selectedIds ? 'hidden' : ''}`}>
+                                                   {t.attachmentIds && t.attachmentIds.length > 0 && (
+                                                     <button onClick={(e) => { e.stopPropagation(); setViewingAttachments(t); }} className="p-1.5 text-slate-400 hover:text-amber-500 active:scale-90 transition-all"><Paperclip size={12} /></button>
+                                                   )}
                                                    <button onClick={(e) => { e.stopPropagation(); handleOpenForm(t); }} className="p-1.5 text-slate-300 hover:text-amber-500 active:scale-90 transition-all"><Edit2 size={12} /></button>
                                                    <button onClick={(e) => { e.stopPropagation(); handleDelete(t.id); }} className="p-1.5 text-slate-300 hover:text-rose-500 active:scale-90 transition-all"><Trash2 size={12} /></button>
                                                 </div>
@@ -529,10 +934,88 @@ export const Dashboard: React.FC<DashboardProps> = ({
       </div>
 
       {/* Botão de Adicionar */}
-      <button onClick={() => handleOpenForm()} className={`fixed bottom-28 right-4 z-40 w-12 h-12 bg-slate-900 dark:bg-white rounded-2xl shadow-xl flex items-center justify-center text-white dark:text-slate-900 transition-all ${isFabVisible ? 'scale-100 opacity-100' : 'scale-0 opacity-0'}`}>
+      <button onClick={() => handleOpenForm()} className={`fixed bottom-28 right-4 z-40 w-12 h-12 bg-slate-900 dark:bg-white rounded-2xl shadow-xl flex items-center justify-center text-white dark:text-slate-900 transition-all ${isFabVisible && !selectedIds ? 'scale-100 opacity-100' : 'scale-0 opacity-0'}`}>
         <Plus size={24} strokeWidth={3} />
       </button>
 
+      {/* AÇÕES EM LOTE */}
+      {selectedIds && (
+        <div className="fixed bottom-28 left-4 right-4 z-[55] flex justify-center animate-in slide-in-from-bottom">
+          <div className="w-full max-w-sm bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-2xl shadow-2xl p-2 flex items-center gap-1">
+            <span className="px-2 text-[10px] font-black whitespace-nowrap">{selectedTransactions.length} sel.</span>
+            <div className="flex-1 grid grid-cols-5 gap-1">
+              <button disabled={selectedTransactions.length === 0} onClick={() => { setBulkDate(getISODate(new Date())); setBulkAction('date'); }} className="py-2 rounded-xl text-[9px] font-black flex flex-col items-center gap-0.5 disabled:opacity-30 active:bg-white/10">
+                <Calendar size={14} /> Data
+              </button>
+              <button disabled={selectedExpenseCount === 0} onClick={() => setBulkAction('category')} className="py-2 rounded-xl text-[9px] font-black flex flex-col items-center gap-0.5 disabled:opacity-30 active:bg-white/10">
+                <ShoppingBag size={14} /> Categoria
+              </button>
+              <button disabled={selectedIncomeCount === 0} onClick={() => setBulkAction('platform')} className="py-2 rounded-xl text-[9px] font-black flex flex-col items-center gap-0.5 disabled:opacity-30 active:bg-white/10">
+                <Smartphone size={14} /> App
+              </button>
+              <button disabled={selectedTransactions.length === 0} onClick={() => setBulkAction('account')} className="py-2 rounded-xl text-[9px] font-black flex flex-col items-center gap-0.5 disabled:opacity-30 active:bg-white/10">
+                <Wallet size={14} /> Conta
+              </button>
+              <button disabled={selectedTransactions.length === 0} onClick={handleBulkDelete} className="py-2 rounded-xl text-[9px] font-black flex flex-col items-center gap-0.5 text-rose-400 dark:text-rose-600 disabled:opacity-30 active:bg-white/10">
+                <Trash2 size={14} /> Excluir
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {selectedIds && bulkAction && (
+        <div className="fixed inset-0 z-[60] flex items-end justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setBulkAction(null)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-5 shadow-2xl animate-in slide-in-from-bottom border border-slate-200 dark:border-slate-800 space-y-4">
+            <div className="flex justify-between items-center">
+              <div>
+                <h3 className="text-lg font-black dark:text-white leading-none mb-1">
+                  {bulkAction === 'date' ? 'Mudar a data' : bulkAction === 'category' ? 'Mudar a categoria' : bulkAction === 'account' ? 'Mudar a conta' : 'Mudar o app'}
+                </h3>
+                <p className="text-[10px] font-bold text-slate-400">
+                  {bulkAction === 'date' || bulkAction === 'account'
+                    ? `${selectedTransactions.length} ${selectedTransactions.length === 1 ? 'lançamento' : 'lançamentos'}`
+                    : bulkAction === 'category'
+                      ? `${selectedExpenseCount} ${selectedExpenseCount === 1 ? 'gasto' : 'gastos'}${selectedIncomeCount > 0 ? '; os ganhos ficam como estão' : ''}`
+                      : `${selectedIncomeCount} ${selectedIncomeCount === 1 ? 'ganho' : 'ganhos'}${selectedExpenseCount > 0 ? '; os gastos ficam como estão' : ''}`}
+                </p>
+              </div>
+              <button onClick={() => setBulkAction(null)} className="bg-slate-100 dark:bg-slate-800 p-2 rounded-full text-slate-500"><X size={20} /></button>
+            </div>
+
+            {bulkAction === 'date' ? (
+              <div className="space-y-3">
+                <input type="date" value={bulkDate} onChange={e => setBulkDate(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+                <button disabled={!bulkDate} onClick={() => applyBulk({ date: bulkDate })} className="w-full py-4 rounded-2xl font-black text-sm text-white bg-slate-900 dark:bg-white dark:text-slate-900 shadow-xl active:scale-95 transition-all disabled:opacity-40">
+                  Mover para esta data
+                </button>
+              </div>
+            ) : bulkAction === 'account' ? (
+              <div className="flex flex-wrap gap-2">
+                {getAccounts(accounts).map(account => (
+                  <button key={account.id} onClick={() => applyBulk({ accountId: account.id })} className="text-[10px] font-black px-3 py-2 rounded-xl border bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400 border-slate-200 dark:border-slate-700 flex items-center gap-1.5 active:scale-95 transition-all">
+                    <AccountIcon kind={account.kind} size={12} />
+                    {account.name}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {getCatalogChips(catalog, bulkAction).map(tag => (
+                  <button key={tag} onClick={() => applyBulk(bulkAction === 'category' ? { category: tag } : { platform: tag })} className="text-[10px] font-black px-3 py-2 rounded-xl border bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400 border-slate-200 dark:border-slate-700 active:scale-95 transition-all">
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+            {bulkAction === 'category' && selectedTransactions.some(t => t.splits?.length) && (
+              <p className="text-[10px] font-bold text-amber-600">Gastos divididos voltam a ter uma só categoria.</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* MODAL DE EXTRATO DETALHADO */}
       {showBalanceDetails && (
         <div className="fixed inset-0 z-[100] flex items-end justify-center p-4 animate-in fade-in duration-200">
@@ -562,7 +1045,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                   <div key={item.id + item.date} className={`p-4 rounded-2xl border flex justify-between items-center ${item.type === 'income' ? 'bg-emerald-50/20 dark:bg-emerald-950/10 border-emerald-100 dark:border-emerald-900/30' : 'bg-slate-50/50 dark:bg-slate-950/50 border-slate-100 dark:border-slate-800'}`}>
                     <div className="flex items-center gap-3">
                       <div className={`w-9 h-9 rounded-full flex items-center justify-center ${item.type === 'income' ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'}`}>
-                        {getTransactionIcon({ description: item.description, type: item.type, isFixed: item.isFixed })}
+                        {getTransactionIcon({ category: item.category, type: item.type, isFixed: item.isFixed, isSplit: !!item.splits?.length })}
                       </div>
                       <div>
                         <div className="flex items-center gap-2">
@@ -609,8 +1092,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
             </div>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
-                <button type="button" onClick={() => setType('income')} className={`flex-1 py-2.5 rounded-lg text-xs font-black flex items-center justify-center gap-2 transition-all ${type === 'income' ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-400'}`}><TrendingUp size={16} /> Ganho</button>
-                <button type="button" onClick={() => setType('expense')} className={`flex-1 py-2.5 rounded-lg text-xs font-black flex items-center justify-center gap-2 transition-all ${type === 'expense' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-400'}`}><TrendingDown size={16} /> Gasto</button>
+                <button type="button" onClick={() => selectType('income')} className={`flex-1 py-2.5 rounded-lg text-xs font-black flex items-center justify-center gap-2 transition-all ${type === 'income' ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-400'}`}><TrendingUp size={16} /> Ganho</button>
+                <button type="button" onClick={() => selectType('expense')} className={`flex-1 py-2.5 rounded-lg text-xs font-black flex items-center justify-center gap-2 transition-all ${type === 'expense' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-400'}`}><TrendingDown size={16} /> Gasto</button>
               </div>
               <div className="space-y-3">
                 <div className="relative">
@@ -624,17 +1107,129 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 </div>
                 <input type="date" required value={date} onChange={e => setDate(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
                 <input type="text" required value={description} onChange={e => setDescription(e.target.value)} placeholder="O que foi?" className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
-                <div className="flex flex-wrap gap-2">
-                  {(type === 'income' ? DELIVERY_APPS : EXPENSE_CATEGORIES).map(tag => (
-                    <button key={tag} type="button" onClick={() => setCategory(tag)} className={`text-[10px] font-black px-3 py-2 rounded-xl border transition-all ${category === tag ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900 border-slate-900' : 'bg-slate-100 text-slate-400 dark:bg-slate-800 dark:text-slate-500'}`}>{tag}</button>
-                  ))}
-                </div>
+                {type === 'expense' && isSplitting ? (
+                  <div className="p-3 bg-slate-50 dark:bg-slate-950 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-2">
+                    {splits.map((split, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <select
+                          value={split.category}
+                          onChange={e => updateSplit(index, { category: e.target.value })}
+                          className="flex-1 min-w-0 bg-white dark:bg-slate-900 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 text-xs font-bold focus:outline-none dark:text-white"
+                        >
+                          <option value="">Categoria</option>
+                          {getCatalogChips(catalog, 'category', split.category).map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                        </select>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={split.amount}
+                          onChange={e => updateSplit(index, { amount: e.target.value })}
+                          placeholder="0,00"
+                          className="w-24 bg-white dark:bg-slate-900 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 text-xs font-black focus:outline-none dark:text-white"
+                        />
+                        <button type="button" onClick={() => { setSplits(splits.filter((_, i) => i !== index)); setSplitError(null); }} className="p-1.5 text-slate-300 hover:text-rose-500"><X size={14} /></button>
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between pt-1">
+                      <button type="button" onClick={addSplit} className="text-[10px] font-black text-slate-500 flex items-center gap-1"><Plus size={12} /> Parte</button>
+                      <span className={`text-[10px] font-black ${Math.abs(splitRemainder) < 0.005 ? 'text-emerald-600' : 'text-amber-600'}`}>
+                        {Math.abs(splitRemainder) < 0.005 ? 'Fecha com o total' : splitRemainder > 0 ? `Falta ${formatCurrency(splitRemainder)}` : `Passou ${formatCurrency(-splitRemainder)}`}
+                      </span>
+                    </div>
+                    {splitError && (
+                      <div className="text-[10px] text-rose-500 font-bold flex items-center gap-2">
+                        <AlertCircle size={14} className="shrink-0" />
+                        {splitError}
+                      </div>
+                    )}
+                    <button type="button" onClick={stopSplitting} className="w-full text-[10px] font-bold text-slate-400 pt-1">Voltar para uma categoria</button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {(type === 'income' ? getCatalogChips(catalog, 'platform', platform) : getCatalogChips(catalog, 'category', category)).map(tag => (
+                      <button key={tag} type="button" onClick={() => type === 'income' ? selectPlatform(tag) : setCategory(tag)} className={`text-[10px] font-black px-3 py-2 rounded-xl border transition-all ${(type === 'income' ? platform : category) === tag ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900 border-slate-900' : 'bg-slate-100 text-slate-400 dark:bg-slate-800 dark:text-slate-500'}`}>{tag}</button>
+                    ))}
+                    {type === 'expense' && (
+                      <button type="button" onClick={startSplitting} className="text-[10px] font-black px-3 py-2 rounded-xl border border-dashed border-slate-300 dark:border-slate-700 text-slate-400 flex items-center gap-1"><Split size={12} /> Dividir</button>
+                    )}
+                  </div>
+                )}
+                {type === 'expense' && (isSplitting ? splits.some(split => split.category === fuelCategory) : category === fuelCategory) && (
+                  <div className="p-3 bg-amber-50/60 dark:bg-amber-950/10 rounded-2xl border border-amber-200/60 dark:border-amber-900/40 space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="space-y-1">
+                        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1">Odômetro (km)</span>
+                        <input type="text" inputMode="decimal" value={odometer} onChange={e => { setOdometer(e.target.value); setFuelError(null); }} placeholder="12345" className="w-full bg-white dark:bg-slate-900 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 text-xs font-black focus:outline-none dark:text-white" />
+                      </label>
+                      <label className="space-y-1">
+                        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1">Litros</span>
+                        <input type="text" inputMode="decimal" value={liters} onChange={e => setLiters(e.target.value)} placeholder="0,0" className="w-full bg-white dark:bg-slate-900 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 text-xs font-black focus:outline-none dark:text-white" />
+                      </label>
+                    </div>
+                    <label className="flex items-center gap-2 px-1 text-[10px] font-bold text-slate-500 dark:text-slate-400">
+                      <input type="checkbox" checked={!partialFill} onChange={e => setPartialFill(!e.target.checked)} className="accent-amber-500" />
+                      Completei o tanque
+                    </label>
+                    {fuelError && (
+                      <div className="text-[10px] text-rose-500 font-bold flex items-center gap-2">
+                        <AlertCircle size={14} className="shrink-0" />
+                        {fuelError}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {getAccounts(accounts).length > 0 && (
+                  <div className="flex items-center gap-2 overflow-x-auto no-scrollbar">
+                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0 pl-1">{type === 'income' ? 'Entrou em' : 'Saiu de'}</span>
+                    {getAccounts(accounts, true).filter(a => !a.archived || a.id === accountId).map(account => (
+                      <button key={account.id} type="button" onClick={() => setAccountId(accountId === account.id ? '' : account.id)} className={`shrink-0 text-[10px] font-black px-3 py-2 rounded-xl border flex items-center gap-1.5 transition-all ${accountId === account.id ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-slate-100 text-slate-400 dark:bg-slate-800 dark:text-slate-500'}`}>
+                        <AccountIcon kind={account.kind} size={12} />
+                        {account.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {!editingId && !activeTemplateId && !isSplitting && (
+                  <label className="flex items-center gap-2 px-1 text-[10px] font-bold text-slate-500 dark:text-slate-400">
+                    <input type="checkbox" checked={saveAsTemplate} onChange={e => setSaveAsTemplate(e.target.checked)} className="accent-amber-500" />
+                    Salvar como atalho no Início
+                  </label>
+                )}
+                <button type="button" onClick={() => setShowFormAttachments(true)} className="w-full py-3 rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 text-[10px] font-black flex items-center justify-center gap-2">
+                  <Paperclip size={14} />
+                  {attachmentIds.length > 0 ? `Comprovantes (${attachmentIds.length})` : 'Anexar comprovante'}
+                </button>
               </div>
               <button type="submit" className={`w-full py-4 rounded-2xl font-black text-sm text-white shadow-xl active:scale-95 transition-all mt-2 ${type === 'income' ? 'bg-emerald-600' : 'bg-rose-600'}`}>{editingId ? 'Salvar Alterações' : 'Confirmar Lançamento'}</button>
             </form>
           </div>
         </div>
       )}
+
+      {showForm && showFormAttachments && (
+        <AttachmentViewer
+          title={description || 'Comprovantes'}
+          attachmentIds={attachmentIds}
+          onLoadAttachment={onLoadAttachment}
+          onAddFiles={async files => {
+            for (const file of files) {
+              const id = await onSaveAttachment(file);
+              setAttachmentIds(prev => [...prev, id]);
+            }
+          }}
+          onRemove={id => setAttachmentIds(prev => prev.filter(a => a !== id))}
+          onClose={() => setShowFormAttachments(false)}
+        />
+      )}
+
+      {viewingAttachments && (
+        <AttachmentViewer
+          title={viewingAttachments.description}
+          attachmentIds={viewingAttachments.attachmentIds || []}
+          onLoadAttachment={onLoadAttachment}
+          onClose={() => setViewingAttachments(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,18 +1,25 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { FixedExpense, RecurrenceType, CreditCard, TransactionType } from '../types';
+import { FixedExpense, RecurrenceType, CreditCard, TransactionType, CatalogItem } from '../types';
 import { formatCurrency, getBillingPeriodRange, getISODate, getFixedExpensesForPeriod, parseDateLocal } from '../utils';
 import { Card } from './ui/Card';
-import { ChevronLeft, ChevronRight, Plus, Trash2, X, Receipt, ScrollText, Calendar, Repeat, Clock, TrendingUp, TrendingDown, Wallet, Edit2, CreditCard as CardIcon, CheckCircle2, AlertCircle, Info, ShoppingBag, ChevronDown, ChevronUp } from './Icons';
+import { ChevronLeft, ChevronRight, Plus, Trash2, X, Receipt, ScrollText, Calendar, Repeat, Clock, TrendingUp, TrendingDown, Wallet, Edit2, CreditCard as CardIcon, CheckCircle2, AlertCircle, Info, ShoppingBag, ChevronDown, ChevronUp, Paperclip } from './Icons';
 import { v4 as uuidv4 } from 'uuid';
+import { getCatalogChips } from '../services/catalog';
+import { AttachmentViewer } from './AttachmentViewer';
 
 interface FixedExpensesProps {
   fixedExpenses: FixedExpense[];
   creditCards: CreditCard[];
+  catalog: CatalogItem[];
   startDayOfMonth: number;
   endDayOfMonth?: number;
   onAddExpense: (expense: FixedExpense) => void;
   onUpdateExpense: (expense: FixedExpense) => void;
   onDeleteExpense: (id: string) => void;
+  onDeleteOccurrence: (id: string, occurrenceDate: string) => void;
+  onTogglePaid: (expense: FixedExpense, isPaid: boolean) => void;
+  onSaveAttachment: (file: File) => Promise<string>;
+  onLoadAttachment: (id: string) => Promise<string | null>;
 }
 
 const QUICK_AMOUNTS = [10, 20, 50, 100, 200, 500];
@@ -95,11 +102,16 @@ const SwipeableListItem: React.FC<SwipeableListItemProps> = ({ children, onToggl
 export const FixedExpenses: React.FC<FixedExpensesProps> = ({
   fixedExpenses,
   creditCards,
+  catalog,
   startDayOfMonth,
   endDayOfMonth,
   onAddExpense,
   onUpdateExpense,
-  onDeleteExpense
+  onDeleteExpense,
+  onDeleteOccurrence,
+  onTogglePaid,
+  onSaveAttachment,
+  onLoadAttachment
 }) => {
   const [viewDate, setViewDate] = useState(new Date());
   const [showForm, setShowForm] = useState(false);
@@ -107,6 +119,9 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
   const [viewingHistoryCard, setViewingHistoryCard] = useState<CreditCard | null>(null);
   const [isCardsExpanded, setIsCardsExpanded] = useState(false);
   
+  // Ocorrência cujos comprovantes estão abertos
+  const [attachmentsFor, setAttachmentsFor] = useState<{ id: string; occurrenceDate: string } | null>(null);
+
   const [deleteModal, setDeleteModal] = useState<{ isOpen: boolean; item: (FixedExpense & { occurrenceDate: string }) | null }>({ isOpen: false, item: null });
 
   // Form State
@@ -198,7 +213,7 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
         updatedPaidDates = [...currentPaidDates, item.occurrenceDate];
     }
     
-    onUpdateExpense({ ...currentItem, paidDates: updatedPaidDates });
+    onTogglePaid({ ...currentItem, paidDates: updatedPaidDates }, !item.isPaid);
   };
 
   const handleQuickAmount = (val: number) => {
@@ -228,6 +243,13 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
     }
   };
 
+  const confirmDeleteOccurrence = () => {
+    if (deleteModal.item) {
+      onDeleteOccurrence(deleteModal.item.id, deleteModal.item.occurrenceDate);
+      setDeleteModal({ isOpen: false, item: null });
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!amount || !title) return;
@@ -243,6 +265,7 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
       installments: recurrence === 'installments' ? parseInt(installments) : undefined,
       excludedDates: editingId ? fixedExpenses.find(f => f.id === editingId)?.excludedDates : [],
       paidDates: editingId ? fixedExpenses.find(f => f.id === editingId)?.paidDates : [],
+      attachmentIds: editingId ? fixedExpenses.find(f => f.id === editingId)?.attachmentIds : undefined,
       cardId: isCardExpense ? selectedCardId : undefined
     };
 
@@ -273,6 +296,21 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
     setShowForm(true);
   };
 
+  const attachmentsExpense = attachmentsFor ? fixedExpenses.find(e => e.id === attachmentsFor.id) : undefined;
+
+  // Cada ocorrência guarda os próprios comprovantes, como o boleto de cada mês
+  const updateOccurrenceAttachments = (update: (ids: string[]) => string[]) => {
+    if (!attachmentsFor) return;
+    const expense = fixedExpenses.find(e => e.id === attachmentsFor.id);
+    if (!expense) return;
+    const { occurrenceDate } = attachmentsFor;
+    const attachmentIds = { ...expense.attachmentIds };
+    const next = update(attachmentIds[occurrenceDate] || []);
+    if (next.length > 0) attachmentIds[occurrenceDate] = next;
+    else delete attachmentIds[occurrenceDate];
+    onUpdateExpense({ ...expense, attachmentIds });
+  };
+
   const renderList = (items: typeof activeItems) => (
     <div className="space-y-1.5">
        {items.map(item => {
@@ -333,6 +371,12 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
                  {isIncome ? '+' : '-'}{formatCurrency(item.amount)}
                </span>
                <div className="flex items-center">
+                 <button
+                   onClick={(e) => { e.stopPropagation(); setAttachmentsFor({ id: item.id, occurrenceDate: item.occurrenceDate }); }}
+                   className={`p-1 transition-colors ${item.attachmentIds?.[item.occurrenceDate]?.length ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}`}
+                 >
+                   <Paperclip size={12} />
+                 </button>
                  <button onClick={(e) => { e.stopPropagation(); handleEdit(item); }} className="p-1 text-slate-300 hover:text-amber-500 transition-colors"><Edit2 size={12} /></button>
                  <button onClick={(e) => { e.stopPropagation(); setDeleteModal({ isOpen: true, item }); }} className="p-1 text-slate-300 hover:text-rose-500 transition-colors"><Trash2 size={12} /></button>
                </div>
@@ -546,10 +590,13 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
                 <AlertCircle size={28} />
              </div>
              <h3 className="text-center font-bold text-slate-900 dark:text-white mb-2 text-sm">Excluir Fixa?</h3>
-             <p className="text-center text-[11px] text-slate-500 mb-6">Removerá este lançamento permanentemente de todos os meses futuros.</p>
+             <p className="text-center text-[11px] text-slate-500 mb-6">O lançamento vai para a lixeira e pode ser restaurado em Ajustes.</p>
+             {deleteModal.item?.recurrence !== 'single' && (
+                <button onClick={confirmDeleteOccurrence} className="w-full mb-3 py-3 rounded-xl font-bold text-[11px] text-rose-600 bg-rose-50 dark:bg-rose-900/20">Só este mês</button>
+             )}
              <div className="flex gap-3">
                 <button onClick={() => setDeleteModal({ isOpen: false, item: null })} className="flex-1 py-3 rounded-xl font-bold text-[11px] text-slate-400 bg-slate-50 dark:bg-slate-800">Cancelar</button>
-                <button onClick={confirmDelete} className="flex-1 py-3 rounded-xl font-bold text-[11px] text-white bg-rose-600 shadow-lg shadow-rose-500/20">Excluir</button>
+                <button onClick={confirmDelete} className="flex-1 py-3 rounded-xl font-bold text-[11px] text-white bg-rose-600 shadow-lg shadow-rose-500/20">{deleteModal.item?.recurrence === 'single' ? 'Excluir' : 'Todos os meses'}</button>
              </div>
           </div>
         </div>
@@ -596,6 +643,14 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
 
                 <input type="text" required value={title} onChange={e => setTitle(e.target.value)} placeholder="O que é? (ex: Internet)" className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
                 <input type="date" required value={formDate} onChange={e => setFormDate(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+                {/* Sem categoria escolhida, a fixa usa o próprio nome como categoria */}
+                {type === 'expense' && (
+                  <div className="flex flex-wrap gap-2">
+                    {getCatalogChips(catalog, 'category', category).map(tag => (
+                      <button key={tag} type="button" onClick={() => setCategory(category === tag ? '' : tag)} className={`text-[10px] font-black px-3 py-2 rounded-xl border transition-all ${category === tag ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900 border-slate-900' : 'bg-slate-100 text-slate-400 dark:bg-slate-800 dark:text-slate-500'}`}>{tag}</button>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {type === 'expense' && (
@@ -679,6 +734,21 @@ export const FixedExpenses: React.FC<FixedExpensesProps> = ({
           </div>
         </div>
       )}
+
+      {attachmentsFor && attachmentsExpense && (
+        <AttachmentViewer
+          title={`${attachmentsExpense.title} · ${parseDateLocal(attachmentsFor.occurrenceDate).toLocaleDateString('pt-BR')}`}
+          attachmentIds={attachmentsExpense.attachmentIds?.[attachmentsFor.occurrenceDate] || []}
+          onLoadAttachment={onLoadAttachment}
+          onAddFiles={async (files) => {
+            const ids: string[] = [];
+            for (const file of files) ids.push(await onSaveAttachment(file));
+            updateOccurrenceAttachments(current => [...current, ...ids]);
+          }}
+          onRemove={(id) => updateOccurrenceAttachments(current => current.filter(a => a !== id))}
+          onClose={() => setAttachmentsFor(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { Transaction, CatalogItem, MaintenancePlan } from '../types';
+import { Card } from './ui/Card';
+import { formatCurrency, formatDate, parseDateLocal } from '../utils';
+import { ChevronLeft, Fuel, Gauge, AlertCircle } from './Icons';
+import { buildFuelTanks, getFuelCategoryName, summarizeFuelTanks } from '../services/fuel';
+import { MaintenanceDone } from '../services/maintenance';
+import { MaintenanceCard } from './MaintenanceCard';
+
+interface FuelLogProps {
+  transactions: Transaction[];
+  catalog: CatalogItem[];
+  maintenancePlans: MaintenancePlan[];
+  onSaveMaintenancePlans: (plans: MaintenancePlan[]) => void;
+  onDeleteMaintenancePlan: (id: string) => void;
+  onCompleteMaintenance: (id: string, done: MaintenanceDone) => void;
+  onBack: () => void;
+}
+
+// Tanques que entram nas médias e no gráfico; os mais antigos já não dizem muito sobre a moto hoje
+const RECENT_TANKS = 12;
+
+const formatKmPerLiter = (value: number) => `${value.toFixed(1).replace('.', ',')} km/l`;
+
+export const FuelLog: React.FC<FuelLogProps> = ({ transactions, catalog, maintenancePlans, onSaveMaintenancePlans, onDeleteMaintenancePlan, onCompleteMaintenance, onBack }) => {
+  const fuelCategory = getFuelCategoryName(catalog);
+
+  const tanks = useMemo(() => buildFuelTanks(transactions, fuelCategory), [transactions, fuelCategory]);
+  const recent = tanks.slice(-RECENT_TANKS);
+  const summary = useMemo(() => summarizeFuelTanks(recent), [tanks]);
+  const lastTank = tanks[tanks.length - 1];
+  const maxKmPerLiter = Math.max(...recent.map(t => t.kmPerLiter || 0), 1);
+
+  const fillsWithOdometer = useMemo(() =>
+    transactions.filter(t => t.fuel?.odometer).length,
+    [transactions]
+  );
+
+  return (
+    <div className="flex flex-col gap-5 pb-32 pt-4 px-2">
+      <header className="px-2 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-900 dark:hover:text-white rounded-xl transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-xl font-black text-slate-900 dark:text-slate-100">Moto 🏍️</h1>
+          <p className="text-slate-500 dark:text-slate-400 text-xs">Consumo tanque a tanque e manutenção.</p>
+        </div>
+      </header>
+
+      <MaintenanceCard
+        plans={maintenancePlans}
+        transactions={transactions}
+        onSavePlans={onSaveMaintenancePlans}
+        onDeletePlan={onDeleteMaintenancePlan}
+        onCompletePlan={onCompleteMaintenance}
+      />
+
+      {tanks.length === 0 ? (
+        <div className="text-center py-12 px-6 text-slate-400 text-xs font-bold space-y-2">
+          <Fuel size={28} className="mx-auto text-slate-300 dark:text-slate-700" />
+          <p>
+            {fillsWithOdometer === 0
+              ? `Ao lançar um gasto de ${fuelCategory}, anote o odômetro e os litros.`
+              : 'Falta mais um tanque cheio com odômetro para calcular o consumo.'}
+          </p>
+          <p className="font-medium">O consumo é calculado entre dois tanques completados.</p>
+        </div>
+      ) : (
+        <>
+          {lastTank?.isDrop && lastTank.kmPerLiter !== null && lastTank.baseline !== null && (
+            <div className="p-4 rounded-2xl bg-rose-50 dark:bg-rose-950/20 border border-rose-200 dark:border-rose-900/50 flex gap-3">
+              <AlertCircle size={18} className="text-rose-500 shrink-0 mt-0.5" />
+              <div>
+                <p className="text-xs font-black text-rose-700 dark:text-rose-300">
+                  Consumo caiu {Math.round((1 - lastTank.kmPerLiter / lastTank.baseline) * 100)}% no último tanque
+                </p>
+                <p className="text-[10px] font-bold text-rose-600/80 dark:text-rose-400/80 mt-1">
+                  Rendeu {formatKmPerLiter(lastTank.kmPerLiter)} contra {formatKmPerLiter(lastTank.baseline)} antes. Queda repentina costuma ser o primeiro sinal de problema: confira pneus, corrente, vela e filtro de ar.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <Card
+              title="Média"
+              value={summary.kmPerLiter === null ? '—' : formatKmPerLiter(summary.kmPerLiter)}
+              subtitle={`${summary.km.toLocaleString('pt-BR')} km rodados`}
+              icon={<Gauge size={14} className="text-amber-500" />}
+              valueClassName="text-base"
+              className="p-4"
+            />
+            <Card
+              title="Custo por km"
+              value={summary.costPerKm === null ? '—' : formatCurrency(summary.costPerKm)}
+              subtitle={`${formatCurrency(summary.cost)} em ${summary.tanks} ${summary.tanks === 1 ? 'tanque' : 'tanques'}`}
+              icon={<Fuel size={14} className="text-amber-500" />}
+              valueClassName="text-base"
+              className="p-4"
+            />
+          </div>
+
+          {recent.some(t => t.kmPerLiter !== null) && (
+            <div className="p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-sm">
+              <p className="text-[9px] font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 mb-3">km/l por tanque</p>
+              <div className="flex items-end gap-1 h-20">
+                {recent.map(tank => (
+                  <div
+                    key={tank.id}
+                    title={tank.kmPerLiter === null ? 'Sem litros anotados' : formatKmPerLiter(tank.kmPerLiter)}
+                    className={`flex-1 rounded-t ${tank.isDrop ? 'bg-rose-500' : tank.kmPerLiter === null ? 'bg-slate-100 dark:bg-slate-800' : 'bg-amber-400'}`}
+                    style={{ height: `${Math.max(((tank.kmPerLiter || 0) / maxKmPerLiter) * 100, 4)}%` }}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {[...tanks].reverse().map(tank => (
+              <div key={tank.id} className={`p-3.5 bg-white dark:bg-slate-900 border rounded-2xl shadow-sm flex items-center justify-between gap-3 ${tank.isDrop ? 'border-rose-200 dark:border-rose-900/50' : 'border-slate-200 dark:border-slate-800'}`}>
+                <div className="min-w-0">
+                  <p className="text-xs font-black text-slate-900 dark:text-white">
+                    {formatDate(parseDateLocal(tank.startDate))} → {formatDate(parseDateLocal(tank.endDate))}
+                  </p>
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tighter">
+                    {tank.km.toLocaleString('pt-BR')} km
+                    {tank.liters !== null && ` · ${tank.liters.toLocaleString('pt-BR')} l`}
+                    {` · ${formatCurrency(tank.cost)}`}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={`text-sm font-black ${tank.isDrop ? 'text-rose-600' : 'text-slate-900 dark:text-white'}`}>
+                    {tank.kmPerLiter === null ? '—' : formatKmPerLiter(tank.kmPerLiter)}
+                  </p>
+                  <p className="text-[9px] font-bold text-slate-400">{formatCurrency(tank.costPerKm)}/km</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-[9px] text-slate-400 font-medium px-2">
+            Cada tanque vai de um tanque cheio ao seguinte; abastecimentos parciais no meio somam seus litros ao tanque.
+            As médias usam os últimos {RECENT_TANKS} tanques, e a queda é marcada quando o consumo fica bem abaixo dos anteriores.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,30 @@
 import React, { useState, useMemo } from 'react';
-import { GoalSettings, Transaction, FixedExpense } from '../types';
+import { GoalSettings, Transaction, FixedExpense, WorkLog, Shift } from '../types';
 import { formatCurrency, getISODate, getBillingPeriodRange, getFixedExpensesForPeriod, parseDateLocal, isSameDay } from '../utils';
 import { Card } from './ui/Card';
-import { Target, Calendar as CalIcon, ChevronLeft, ChevronRight, AlertCircle, TrendingUp, TrendingDown, Clock } from './Icons';
+import { Target, Calendar as CalIcon, ChevronLeft, ChevronRight, AlertCircle, TrendingUp, TrendingDown, Clock, Bike, Timer, Trash2 } from './Icons';
+import { WorkMetrics } from './ui/WorkMetrics';
+import { summarizeWork, formatDuration } from '../services/workLog';
+import { summarizeShifts, getShiftDay, getShiftMinutes } from '../services/shifts';
 
 interface GoalsProps {
   goalSettings: GoalSettings;
   transactions: Transaction[];
   onUpdateSettings: (settings: GoalSettings) => void;
   fixedExpenses: FixedExpense[];
+  workLogs: WorkLog[];
+  shifts: Shift[];
+  onDeleteShift: (id: string) => void;
 }
 
 export const Goals: React.FC<GoalsProps> = ({ 
   goalSettings, 
   transactions, 
   onUpdateSettings,
-  fixedExpenses
+  fixedExpenses,
+  workLogs,
+  shifts,
+  onDeleteShift
 }) => {
   const [viewDate, setViewDate] = useState(new Date());
   
@@ -67,6 +76,26 @@ export const Goals: React.FC<GoalsProps> = ({
       }, 0);
   }, [transactions, startDate, endDate]);
 
+  // Rendimento dos dias anotados no ciclo exibido
+  const workSummary = useMemo(() =>
+    summarizeWork(workLogs, transactions, getISODate(startDate), getISODate(endDate)),
+    [workLogs, transactions, startDate, endDate]
+  );
+
+  // Horas de turno do ciclo exibido contra os ganhos dos mesmos dias
+  const shiftSummary = useMemo(() =>
+    summarizeShifts(shifts, transactions, getISODate(startDate), getISODate(endDate)),
+    [shifts, transactions, startDate, endDate]
+  );
+
+  const cycleShifts = useMemo(() => {
+    const start = getISODate(startDate);
+    const end = getISODate(endDate);
+    return shifts
+      .filter(s => getShiftDay(s) >= start && getShiftDay(s) <= end)
+      .sort((a, b) => b.start.localeCompare(a.start));
+  }, [shifts, startDate, endDate]);
+
   const remainingToEarn = useMemo(() => {
     return Math.max(0, netBillsGap - netWorkProfit);
   }, [netBillsGap, netWorkProfit]);
@@ -477,6 +506,76 @@ export const Goals: React.FC<GoalsProps> = ({
         </Card>
       </div>
 
+      {shiftSummary.count > 0 && (
+        <Card
+          title="Horas do Ciclo"
+          subtitle={`${shiftSummary.count} ${shiftSummary.count === 1 ? 'turno' : 'turnos'} · ${formatCurrency(shiftSummary.income)} em ganhos`}
+          icon={<Timer size={16} className="text-emerald-500" />}
+          className="p-5"
+        >
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <div className="p-2.5 rounded-xl bg-slate-50 dark:bg-slate-950 border border-slate-100 dark:border-slate-800 text-center">
+              <p className="text-sm font-black text-slate-900 dark:text-white leading-none mb-1">{formatDuration(shiftSummary.minutes)}</p>
+              <p className="text-[8px] font-black text-slate-400 uppercase tracking-tighter">Trabalhadas</p>
+            </div>
+            <div className="p-2.5 rounded-xl bg-slate-50 dark:bg-slate-950 border border-slate-100 dark:border-slate-800 text-center">
+              <p className="text-sm font-black text-slate-900 dark:text-white leading-none mb-1">
+                {shiftSummary.perHour === null ? '—' : formatCurrency(shiftSummary.perHour)}
+              </p>
+              <p className="text-[8px] font-black text-slate-400 uppercase tracking-tighter">Por hora</p>
+            </div>
+          </div>
+          <div className="mt-3 space-y-1.5 max-h-48 overflow-y-auto">
+            {cycleShifts.map(shift => {
+              const start = new Date(shift.start);
+              const time = (d: Date) => d.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+              return (
+                <div key={shift.id} className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-950">
+                  <div className="min-w-0">
+                    <p className="text-[11px] font-black text-slate-800 dark:text-slate-100 leading-none mb-0.5">
+                      {start.toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit', month: '2-digit' })}
+                    </p>
+                    <p className="text-[9px] font-bold text-slate-400">
+                      {time(start)} – {shift.end ? time(new Date(shift.end)) : 'em andamento'}
+                      {shift.pauses.length > 0 && ` · ${shift.pauses.length} ${shift.pauses.length === 1 ? 'pausa' : 'pausas'}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs font-black text-slate-700 dark:text-slate-200">{formatDuration(getShiftMinutes(shift))}</span>
+                    {shift.end && (
+                      <button onClick={() => onDeleteShift(shift.id)} className="p-1.5 text-slate-300 hover:text-rose-500" aria-label="Excluir turno">
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
+      {workSummary.days > 0 && (
+        <Card
+          title="Rendimento do Ciclo"
+          subtitle={`${workSummary.days} ${workSummary.days === 1 ? 'dia anotado' : 'dias anotados'} · ${formatCurrency(workSummary.income)} em ganhos`}
+          icon={<Bike size={16} className="text-amber-500" />}
+          className="p-5"
+        >
+          <WorkMetrics summary={workSummary} className="mt-3" />
+          <div className="grid grid-cols-3 gap-2 mt-2 text-center text-[9px] font-bold text-slate-400 uppercase tracking-tighter">
+            <span>{formatDuration(workSummary.onlineMinutes)} online</span>
+            <span>{workSummary.km.toLocaleString('pt-BR')} km</span>
+            <span>{workSummary.deliveries} entregas</span>
+          </div>
+          {workSummary.ridingShare !== null && (
+            <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400 mt-3">
+              {Math.round(workSummary.ridingShare * 100)}% do tempo online foi rodando; o resto foi esperando pedido.
+            </p>
+          )}
+        </Card>
+      )}
+
       <Card 
         title="Folgas" 
         subtitle={`Toque nos dias que não terá corre`} 
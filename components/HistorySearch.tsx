@@ -0,0 +1,298 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction, FixedExpense, CatalogItem, TransactionType } from '../types';
+import { Card } from './ui/Card';
+import { CatalogIcon } from './ui/CatalogIcon';
+import { formatCurrency, getISODate, parseDateLocal } from '../utils';
+import { ChevronLeft, Search, SlidersHorizontal, X, TrendingUp, TrendingDown, ScrollText, Repeat } from './Icons';
+import { getCatalogItems, findCatalogItem } from '../services/catalog';
+import { searchHistory, getSearchTotals, SearchFilters, EMPTY_SEARCH_FILTERS } from '../services/search';
+
+interface HistorySearchProps {
+  transactions: Transaction[];
+  fixedExpenses: FixedExpense[];
+  catalog: CatalogItem[];
+  onBack: () => void;
+}
+
+type PeriodPreset = 'all' | 'month' | 'year' | 'last-year' | 'custom';
+
+const PERIOD_LABELS: Record<PeriodPreset, string> = {
+  'all': 'Todo período',
+  'month': 'Este mês',
+  'year': 'Este ano',
+  'last-year': 'Ano passado',
+  'custom': 'Escolher'
+};
+
+const TYPE_OPTIONS: { id: TransactionType | 'all'; label: string }[] = [
+  { id: 'all', label: 'Tudo' },
+  { id: 'income', label: 'Ganhos' },
+  { id: 'expense', label: 'Gastos' }
+];
+
+// Quantos resultados aparecem antes de pedir mais; a soma sempre considera todos
+const PAGE_SIZE = 50;
+
+const getPresetRange = (preset: PeriodPreset, today = new Date()) => {
+  const year = today.getFullYear();
+  switch (preset) {
+    case 'month': return { startDate: getISODate(new Date(year, today.getMonth(), 1)), endDate: getISODate(new Date(year, today.getMonth() + 1, 0)) };
+    case 'year': return { startDate: `${year}-01-01`, endDate: `${year}-12-31` };
+    case 'last-year': return { startDate: `${year - 1}-01-01`, endDate: `${year - 1}-12-31` };
+    default: return { startDate: undefined, endDate: undefined };
+  }
+};
+
+const parseAmount = (value: string) => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const HistorySearch: React.FC<HistorySearchProps> = ({ transactions, fixedExpenses, catalog, onBack }) => {
+  const [text, setText] = useState('');
+  const [type, setType] = useState<TransactionType | 'all'>('all');
+  const [period, setPeriod] = useState<PeriodPreset>('all');
+  const [customStart, setCustomStart] = useState('');
+  const [customEnd, setCustomEnd] = useState('');
+  const [category, setCategory] = useState<string | undefined>();
+  const [platform, setPlatform] = useState<string | undefined>();
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // A busca cobre o histórico todo, então os itens arquivados também viram filtro
+  const categoryNames = useMemo(() => getCatalogItems(catalog, 'category', true).map(item => item.name), [catalog]);
+  const platformNames = useMemo(() => getCatalogItems(catalog, 'platform', true).map(item => item.name), [catalog]);
+
+  const filters = useMemo((): SearchFilters => {
+    const range = period === 'custom'
+      ? { startDate: customStart || undefined, endDate: customEnd || undefined }
+      : getPresetRange(period);
+    return {
+      ...EMPTY_SEARCH_FILTERS,
+      text,
+      type,
+      category: type !== 'income' ? category : undefined,
+      platform: type !== 'expense' ? platform : undefined,
+      minAmount: parseAmount(minAmount),
+      maxAmount: parseAmount(maxAmount),
+      ...range
+    };
+  }, [text, type, period, customStart, customEnd, category, platform, minAmount, maxAmount]);
+
+  const results = useMemo(() => searchHistory(transactions, fixedExpenses, filters), [transactions, fixedExpenses, filters]);
+  const totals = useMemo(() => getSearchTotals(results), [results]);
+
+  const activeFilterCount = [filters.category, filters.platform, filters.minAmount, filters.maxAmount].filter(v => v !== undefined).length;
+  const hasAnyFilter = !!text.trim() || type !== 'all' || period !== 'all' || activeFilterCount > 0;
+
+  const resetPaging = () => setVisibleCount(PAGE_SIZE);
+
+  const clearFilters = () => {
+    setText('');
+    setType('all');
+    setPeriod('all');
+    setCustomStart('');
+    setCustomEnd('');
+    setCategory(undefined);
+    setPlatform(undefined);
+    setMinAmount('');
+    setMaxAmount('');
+    resetPaging();
+  };
+
+  const renderChips = (names: string[], selected: string | undefined, onSelect: (name: string | undefined) => void) => (
+    <div className="flex flex-wrap gap-1.5">
+      {names.map(name => (
+        <button
+          key={name}
+          type="button"
+          onClick={() => { onSelect(selected === name ? undefined : name); resetPaging(); }}
+          className={`px-2.5 py-1 rounded-full text-[10px] font-bold border transition-all ${selected === name ? 'bg-amber-500 border-amber-500 text-white' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500'}`}
+        >
+          {name}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-5 pb-32 pt-4 px-2">
+      <header className="px-2 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-900 dark:hover:text-white rounded-xl transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-xl font-black text-slate-900 dark:text-slate-100">Buscar no Histórico 🔎</h1>
+          <p className="text-slate-500 dark:text-slate-400 text-xs">Lançamentos e fixas de todos os ciclos.</p>
+        </div>
+      </header>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="flex-1 flex items-center gap-2 bg-white dark:bg-slate-900 px-3.5 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm">
+            <Search size={16} className="text-slate-400 shrink-0" />
+            <input
+              autoFocus
+              type="search"
+              placeholder="Ex.: pneu, óleo, iFood"
+              value={text}
+              onChange={e => { setText(e.target.value); resetPaging(); }}
+              className="flex-1 min-w-0 bg-transparent py-3.5 text-sm focus:outline-none dark:text-white"
+            />
+            {text && (
+              <button onClick={() => { setText(''); resetPaging(); }} className="p-1 text-slate-400">
+                <X size={14} />
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`relative p-3.5 rounded-2xl border shadow-sm transition-all ${showFilters ? 'bg-slate-900 dark:bg-white border-slate-900 dark:border-white text-white dark:text-slate-900' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500'}`}
+          >
+            <SlidersHorizontal size={16} />
+            {activeFilterCount > 0 && (
+              <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-amber-500 text-white text-[9px] font-black flex items-center justify-center">{activeFilterCount}</span>
+            )}
+          </button>
+        </div>
+
+        <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+          {TYPE_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => { setType(option.id); resetPaging(); }}
+              className={`flex-1 py-2 rounded-lg text-[10px] font-bold transition-all ${type === option.id ? 'bg-white dark:bg-slate-900 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+          {(Object.keys(PERIOD_LABELS) as PeriodPreset[]).map(preset => (
+            <button
+              key={preset}
+              onClick={() => { setPeriod(preset); resetPaging(); }}
+              className={`px-3 py-1.5 rounded-full text-[10px] font-bold border whitespace-nowrap transition-all ${period === preset ? 'bg-slate-900 dark:bg-white border-slate-900 dark:border-white text-white dark:text-slate-900' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500'}`}
+            >
+              {PERIOD_LABELS[preset]}
+            </button>
+          ))}
+        </div>
+
+        {period === 'custom' && (
+          <div className="grid grid-cols-2 gap-2 animate-in slide-in-from-top-2">
+            <label className="space-y-1">
+              <span className="text-[9px] font-bold text-slate-400 uppercase">De</span>
+              <input type="date" value={customStart} onChange={e => { setCustomStart(e.target.value); resetPaging(); }} className="w-full bg-white dark:bg-slate-900 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] font-bold text-slate-400 uppercase">Até</span>
+              <input type="date" value={customEnd} onChange={e => { setCustomEnd(e.target.value); resetPaging(); }} className="w-full bg-white dark:bg-slate-900 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs" />
+            </label>
+          </div>
+        )}
+
+        {showFilters && (
+          <div className="p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-sm space-y-4 animate-in slide-in-from-top-2">
+            {type !== 'income' && categoryNames.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Categoria</p>
+                {renderChips(categoryNames, category, setCategory)}
+              </div>
+            )}
+            {type !== 'expense' && platformNames.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">App</p>
+                {renderChips(platformNames, platform, setPlatform)}
+              </div>
+            )}
+            <div className="space-y-2">
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Valor (R$)</p>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="text" inputMode="decimal" placeholder="Mínimo" value={minAmount} onChange={e => { setMinAmount(e.target.value); resetPaging(); }} className="w-full bg-slate-50 dark:bg-slate-950 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs" />
+                <input type="text" inputMode="decimal" placeholder="Máximo" value={maxAmount} onChange={e => { setMaxAmount(e.target.value); resetPaging(); }} className="w-full bg-slate-50 dark:bg-slate-950 p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs" />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Card title="Ganhos" value={formatCurrency(totals.income)} icon={<TrendingUp size={14} className="text-emerald-500" />} valueClassName="text-base" className="p-4" />
+        <Card title="Gastos" value={formatCurrency(totals.expense)} icon={<TrendingDown size={14} className="text-rose-500" />} valueClassName="text-base" className="p-4" />
+      </div>
+
+      <div className="flex items-center justify-between px-2 -mt-2">
+        <p className="text-[10px] font-bold text-slate-400">
+          {totals.count} {totals.count === 1 ? 'resultado' : 'resultados'} · Saldo{' '}
+          <span className={totals.income - totals.expense >= 0 ? 'text-emerald-600' : 'text-rose-600'}>{formatCurrency(totals.income - totals.expense)}</span>
+        </p>
+        {hasAnyFilter && (
+          <button onClick={clearFilters} className="text-[10px] font-bold text-amber-600">Limpar filtros</button>
+        )}
+      </div>
+
+      {results.length === 0 ? (
+        <div className="text-center py-12 text-slate-400 text-xs font-bold">
+          Nada encontrado com esses filtros.
+        </div>
+      ) : (
+        <div className="space-y-1.5">
+          {results.slice(0, visibleCount).map(result => {
+            const isIncome = result.type === 'income';
+            const item = isIncome
+              ? findCatalogItem(catalog, 'platform', result.platform)
+              : findCatalogItem(catalog, 'category', result.category);
+            const details = [
+              parseDateLocal(result.date).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short', year: 'numeric' }),
+              isIncome ? result.platform : result.category,
+              result.installment && `Parcela ${result.installment}`
+            ].filter(Boolean).join(' · ');
+
+            return (
+              <div key={result.key} className="p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl flex items-center justify-between gap-3 shadow-sm">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div
+                    className={`w-9 h-9 rounded-xl flex items-center justify-center shrink-0 ${item ? 'text-white' : isIncome ? 'bg-emerald-50 dark:bg-emerald-950/20 text-emerald-600' : 'bg-rose-50 dark:bg-rose-950/20 text-rose-600'}`}
+                    style={item ? { backgroundColor: item.color } : undefined}
+                  >
+                    {item ? <CatalogIcon icon={item.icon} size={16} /> : isIncome ? <TrendingUp size={16} /> : <TrendingDown size={16} />}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-xs font-black text-slate-800 dark:text-slate-100 leading-none mb-1 truncate flex items-center gap-1.5">
+                      {result.source === 'fixed' && (result.installment ? <ScrollText size={10} className="text-slate-400 shrink-0" /> : <Repeat size={10} className="text-slate-400 shrink-0" />)}
+                      <span className="truncate">{result.description}</span>
+                    </p>
+                    <p className="text-[8px] font-bold text-slate-400 uppercase tracking-tighter truncate">
+                      {details}
+                      {result.source === 'fixed' && !result.isPaid && ' · Pendente'}
+                    </p>
+                  </div>
+                </div>
+                <span className={`text-sm font-black tracking-tight shrink-0 ${isIncome ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  {isIncome ? '+' : '-'}{formatCurrency(result.amount)}
+                </span>
+              </div>
+            );
+          })}
+
+          {results.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="w-full py-3 text-[10px] font-bold text-slate-500 bg-slate-100 dark:bg-slate-800 rounded-xl"
+            >
+              Mostrar mais ({results.length - visibleCount} restantes)
+            </button>
+          )}
+
+          <p className="text-[9px] text-slate-400 font-medium px-2 pt-1">
+            As fixas entram pela data de cada ocorrência{!filters.endDate ? ', até hoje' : ''}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -34,7 +34,45 @@ import {
   Utensils, 
   Wrench, 
   ShoppingBag,
-  PieChart
+  PieChart,
+  Download,
+  Upload,
+  FileSpreadsheet,
+  Undo2,
+  Redo2,
+  RotateCcw,
+  Cloud,
+  RefreshCw,
+  Delete,
+  Archive,
+  ArrowUp,
+  ArrowDown,
+  Bike,
+  Car,
+  Coffee,
+  Heart,
+  Package,
+  Shield,
+  Store,
+  Tag,
+  Wifi,
+  Zap,
+  Paperclip,
+  Camera,
+  ImagePlus,
+  Search,
+  SlidersHorizontal,
+  Split,
+  Circle,
+  ListChecks,
+  Timer,
+  Play,
+  Pause,
+  Square,
+  Gauge,
+  Landmark,
+  Banknote,
+  ArrowLeftRight
 } from 'lucide-react';
 
 export { 
@@ -71,5 +109,43 @@ export {
   Utensils, 
   Wrench, 
   ShoppingBag,
-  PieChart
+  PieChart,
+  Download,
+  Upload,
+  FileSpreadsheet,
+  Undo2,
+  Redo2,
+  RotateCcw,
+  Cloud,
+  RefreshCw,
+  Delete,
+  Archive,
+  ArrowUp,
+  ArrowDown,
+  Bike,
+  Car,
+  Coffee,
+  Heart,
+  Package,
+  Shield,
+  Store,
+  Tag,
+  Wifi,
+  Zap,
+  Paperclip,
+  Camera,
+  ImagePlus,
+  Search,
+  SlidersHorizontal,
+  Split,
+  Circle,
+  ListChecks,
+  Timer,
+  Play,
+  Pause,
+  Square,
+  Gauge,
+  Landmark,
+  Banknote,
+  ArrowLeftRight
 };
\ No newline at end of file
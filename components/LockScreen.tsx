@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Logo } from './ui/Logo';
+import { Lock, Delete, AlertCircle, Users } from './Icons';
+import { Profile } from '../types';
+import { PinError, PIN_MAX_LENGTH, PIN_MIN_LENGTH, getLockedUntil } from '../services/pinLock';
+import { getStorageKeyPrefix } from '../services/profiles';
+import { StorageError } from '../services/repository';
+
+interface LockScreenProps {
+  profileId: string;
+  profileName?: string;
+  otherProfiles: Profile[];
+  onUnlock: (pin: string) => Promise<void>;
+  onForgotPin: () => Promise<void>;
+  onSwitchProfile: (id: string) => void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export const LockScreen: React.FC<LockScreenProps> = ({
+  profileId, profileName, otherProfiles, onUnlock, onForgotPin, onSwitchProfile
+}) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState(() => getLockedUntil(getStorageKeyPrefix(profileId)));
+  const [now, setNow] = useState(Date.now());
+  const [showForgot, setShowForgot] = useState(false);
+
+  const secondsLeft = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+  const isBlocked = secondsLeft > 0;
+
+  // Contagem regressiva do bloqueio
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(undefined);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const submit = async (value: string) => {
+    if (isChecking || isBlocked || value.length < PIN_MIN_LENGTH) return;
+    setIsChecking(true);
+    try {
+      await onUnlock(value);
+    } catch (e) {
+      setPin('');
+      if (e instanceof PinError) {
+        setError(e.message);
+        if (e.lockedUntil) {
+          setNow(Date.now());
+          setLockedUntil(e.lockedUntil);
+        }
+      } else {
+        setError('Não foi possível desbloquear.');
+      }
+      setIsChecking(false);
+    }
+  };
+
+  const pressKey = (key: string) => {
+    if (isChecking || isBlocked || pin.length >= PIN_MAX_LENGTH) return;
+    setError(null);
+    setPin(pin + key);
+  };
+
+  const handleForgot = async () => {
+    setIsChecking(true);
+    try {
+      await onForgotPin();
+    } catch (e) {
+      setShowForgot(false);
+      setError(e instanceof StorageError ? e.message : 'Não foi possível apagar os dados. Tente de novo.');
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 flex flex-col items-center justify-center px-6 py-10">
+      <Logo />
+      <div className="w-14 h-14 bg-amber-100 dark:bg-amber-900/30 text-amber-600 rounded-2xl flex items-center justify-center mt-6 mb-3">
+        <Lock size={26} />
+      </div>
+      <p className="text-sm font-bold">{profileName ? `Digite o PIN de ${profileName}` : 'Digite seu PIN'}</p>
+
+      <div className="flex gap-3 my-6 h-4">
+        {Array.from({ length: Math.max(PIN_MIN_LENGTH, pin.length) }, (_, i) => (
+          <div key={i} className={`w-3.5 h-3.5 rounded-full transition-colors ${i < pin.length ? 'bg-amber-500' : 'bg-slate-200 dark:bg-slate-800'}`} />
+        ))}
+      </div>
+
+      <div className="h-10 flex items-center">
+        {(error || isBlocked) && (
+          <p className="text-[11px] text-rose-500 font-bold flex items-center gap-1.5 text-center">
+            <AlertCircle size={14} className="shrink-0" />
+            {isBlocked ? `Muitas tentativas erradas. Tente de novo em ${secondsLeft}s.` : error}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 w-full max-w-[260px]">
+        {KEYS.map(key => (
+          <button
+            key={key}
+            onClick={() => pressKey(key)}
+            disabled={isBlocked}
+            className="h-14 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-xl font-bold disabled:opacity-40 active:scale-95 transition-all"
+          >
+            {key}
+          </button>
+        ))}
+        <button
+          onClick={() => setPin(pin.slice(0, -1))}
+          disabled={pin.length === 0}
+          className="h-14 rounded-2xl text-slate-400 flex items-center justify-center disabled:opacity-30"
+        >
+          <Delete size={22} />
+        </button>
+        <button
+          onClick={() => pressKey('0')}
+          disabled={isBlocked}
+          className="h-14 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-xl font-bold disabled:opacity-40 active:scale-95 transition-all"
+        >
+          0
+        </button>
+        <button
+          onClick={() => submit(pin)}
+          disabled={isBlocked || isChecking || pin.length < PIN_MIN_LENGTH}
+          className="h-14 rounded-2xl bg-amber-500 text-white text-xs font-black disabled:opacity-40 active:scale-95 transition-all"
+        >
+          {isChecking ? '...' : 'Entrar'}
+        </button>
+      </div>
+
+      {otherProfiles.length > 0 && (
+        <div className="mt-8 flex flex-wrap justify-center gap-2">
+          {otherProfiles.map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => onSwitchProfile(profile.id)}
+              className="px-3 py-1.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 text-[10px] font-bold flex items-center gap-1.5"
+            >
+              <Users size={12} />
+              {profile.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <button onClick={() => setShowForgot(true)} className="mt-6 text-[10px] font-bold text-slate-400 underline">
+        Esqueci o PIN
+      </button>
+
+      {showForgot && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center p-6">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={() => setShowForgot(false)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-xs rounded-[2rem] p-6 shadow-2xl animate-in zoom-in-95">
+             <div className="w-12 h-12 bg-rose-100 dark:bg-rose-900/30 text-rose-600 rounded-full flex items-center justify-center mx-auto mb-4">
+                <AlertCircle size={28} />
+             </div>
+             <h3 className="text-center font-bold text-slate-900 dark:text-white mb-2 text-sm">Esqueceu o PIN?</h3>
+             <p className="text-center text-[11px] text-slate-500 mb-6">Os dados ficam criptografados com o PIN e não podem ser recuperados sem ele. Você pode apagar os dados deste perfil e começar de novo (ou restaurar um backup).</p>
+             <div className="flex gap-3">
+                <button onClick={() => setShowForgot(false)} className="flex-1 py-3 rounded-xl font-bold text-[11px] text-slate-400 bg-slate-50 dark:bg-slate-800">Cancelar</button>
+                <button onClick={handleForgot} disabled={isChecking} className="flex-1 py-3 rounded-xl font-bold text-[11px] text-white bg-rose-600 shadow-lg shadow-rose-500/20 disabled:opacity-40">Apagar dados</button>
+             </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from './ui/Card';
+import { Wrench, Plus, X, Trash2, CheckCircle2, AlertCircle } from './Icons';
+import { MaintenancePlan, Transaction } from '../types';
+import { formatCurrency, formatDate, getISODate, parseDateLocal } from '../utils';
+import { SUGGESTED_MAINTENANCE_PLANS } from '../constants';
+import { getOdometerReadings, getDailyKm, estimateOdometer, getMaintenanceStatus, MaintenanceStatus, MaintenanceDone } from '../services/maintenance';
+import { v4 as uuidv4 } from 'uuid';
+
+interface MaintenanceCardProps {
+  plans: MaintenancePlan[];
+  transactions: Transaction[];
+  onSavePlans: (plans: MaintenancePlan[]) => void;
+  onDeletePlan: (id: string) => void;
+  onCompletePlan: (id: string, done: MaintenanceDone) => void;
+}
+
+const STATE_ORDER = { overdue: 0, soon: 1, ok: 2 };
+
+const STATE_STYLES = {
+  overdue: 'bg-rose-100 text-rose-700 dark:bg-rose-950/40 dark:text-rose-400',
+  soon: 'bg-amber-100 text-amber-700 dark:bg-amber-950/40 dark:text-amber-400',
+  ok: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400'
+};
+
+const describeStatus = (status: MaintenanceStatus) => {
+  const parts: string[] = [];
+  if (status.kmLeft !== undefined) {
+    parts.push(status.kmLeft > 0 ? `Faltam ${status.kmLeft.toLocaleString('pt-BR')} km` : `Passou ${(-status.kmLeft).toLocaleString('pt-BR')} km`);
+  }
+  if (status.dueDate && status.daysLeft !== undefined) {
+    parts.push(status.daysLeft < 0 ? `venceu em ${formatDate(parseDateLocal(status.dueDate))}` : `prevista para ${formatDate(parseDateLocal(status.dueDate))}`);
+  }
+  return parts.join(' · ') || 'Anote o odômetro para prever';
+};
+
+const parseNumber = (text: string) => parseFloat(text.replace(',', '.')) || undefined;
+
+export const MaintenanceCard: React.FC<MaintenanceCardProps> = ({ plans, transactions, onSavePlans, onDeletePlan, onCompletePlan }) => {
+  const todayKey = getISODate(new Date());
+  const [editing, setEditing] = useState<MaintenancePlan | null>(null);
+  const [completing, setCompleting] = useState<MaintenancePlan | null>(null);
+  // Campos do formulário, como texto enquanto são digitados
+  const [name, setName] = useState('');
+  const [intervalKm, setIntervalKm] = useState('');
+  const [intervalMonths, setIntervalMonths] = useState('');
+  const [cost, setCost] = useState('');
+  const [doneDate, setDoneDate] = useState(todayKey);
+  const [doneKm, setDoneKm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { odometer, dailyKm } = useMemo(() => {
+    const readings = getOdometerReadings(transactions, plans);
+    const pace = getDailyKm(readings);
+    return { odometer: estimateOdometer(readings, pace, todayKey), dailyKm: pace };
+  }, [transactions, plans, todayKey]);
+
+  const rows = useMemo(() => plans
+    .map(plan => ({ plan, status: getMaintenanceStatus(plan, odometer, dailyKm) }))
+    .sort((a, b) => STATE_ORDER[a.status.state] - STATE_ORDER[b.status.state] || (a.status.dueDate || '9999').localeCompare(b.status.dueDate || '9999')),
+    [plans, odometer, dailyKm]);
+
+  const openForm = (plan?: MaintenancePlan) => {
+    setEditing(plan || { id: '', name: '', estimatedCost: 0, lastDoneDate: todayKey });
+    setName(plan?.name || '');
+    setIntervalKm(plan?.intervalKm ? plan.intervalKm.toString() : '');
+    setIntervalMonths(plan?.intervalMonths ? plan.intervalMonths.toString() : '');
+    setCost(plan?.estimatedCost ? plan.estimatedCost.toString() : '');
+    setDoneDate(plan?.lastDoneDate || todayKey);
+    setDoneKm(plan?.lastDoneKm ? plan.lastDoneKm.toString() : odometer ? odometer.toString() : '');
+    setError(null);
+  };
+
+  const openComplete = (plan: MaintenancePlan) => {
+    setCompleting(plan);
+    setCost(plan.estimatedCost.toString());
+    setDoneDate(todayKey);
+    setDoneKm(odometer ? odometer.toString() : '');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !name.trim()) return;
+    const km = parseNumber(intervalKm);
+    const months = parseInt(intervalMonths, 10) || undefined;
+    const lastKm = parseNumber(doneKm);
+    if (!km && !months) {
+      setError('Informe de quantos em quantos km ou meses ela se repete.');
+      return;
+    }
+    if (km && !lastKm) {
+      setError('Para contar pelos km, informe o odômetro da última vez.');
+      return;
+    }
+    onSavePlans([{
+      ...editing,
+      id: editing.id || uuidv4(),
+      name: name.trim(),
+      intervalKm: km,
+      intervalMonths: months,
+      estimatedCost: parseNumber(cost) || 0,
+      lastDoneDate: doneDate,
+      lastDoneKm: lastKm
+    }]);
+    setEditing(null);
+  };
+
+  const handleComplete = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!completing) return;
+    onCompletePlan(completing.id, { date: doneDate, km: parseNumber(doneKm), cost: parseNumber(cost) || 0 });
+    setCompleting(null);
+  };
+
+  // Os sugeridos contam como feitos hoje; a pessoa ajusta a última troca de cada um depois
+  const handleAddSuggested = () => onSavePlans(SUGGESTED_MAINTENANCE_PLANS.map(suggestion => ({
+    ...suggestion,
+    id: uuidv4(),
+    lastDoneDate: todayKey,
+    lastDoneKm: odometer || undefined
+  })).filter(plan => !plan.intervalKm || plan.lastDoneKm));
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800";
+  const labelClass = "text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1";
+
+  return (
+    <>
+      <Card title="Manutenção" icon={<Wrench size={14} className="text-slate-500" />} className="p-4">
+        <div className="space-y-3">
+          <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400">
+            {odometer !== null
+              ? `Odômetro estimado: ${odometer.toLocaleString('pt-BR')} km${dailyKm ? ` · ~${Math.round(dailyKm)} km por dia` : ''}`
+              : 'Anote o odômetro nos abastecimentos para prever as trocas pelos km.'}
+          </p>
+
+          {rows.map(({ plan, status }) => (
+            <div key={plan.id} className="flex items-center justify-between gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-950 border border-slate-100 dark:border-slate-800">
+              <button onClick={() => openForm(plan)} className="min-w-0 text-left flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-xs font-black text-slate-900 dark:text-white truncate">{plan.name}</p>
+                  {status.state !== 'ok' && (
+                    <span className={`text-[8px] font-black uppercase px-1.5 py-0.5 rounded-md shrink-0 ${STATE_STYLES[status.state]}`}>
+                      {status.state === 'overdue' ? 'Vencida' : 'Perto'}
+                    </span>
+                  )}
+                </div>
+                <p className="text-[9px] font-bold text-slate-400 truncate">
+                  {describeStatus(status)} · {formatCurrency(plan.estimatedCost)}
+                </p>
+              </button>
+              <button onClick={() => openComplete(plan)} className="px-2.5 py-1.5 rounded-lg bg-emerald-600 text-white text-[9px] font-black flex items-center gap-1 shrink-0 active:scale-95 transition-all">
+                <CheckCircle2 size={12} />
+                Feita
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            {plans.length === 0 && (
+              <button onClick={handleAddSuggested} className="flex-1 py-2.5 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-[10px] font-black active:scale-95 transition-all">
+                Usar planos sugeridos
+              </button>
+            )}
+            <button onClick={() => openForm()} className="flex-1 py-2.5 rounded-xl border border-dashed border-slate-300 dark:border-slate-700 text-slate-400 text-[10px] font-black flex items-center justify-center gap-1.5">
+              <Plus size={12} />
+              Plano
+            </button>
+          </div>
+          <p className="text-[9px] text-slate-400 font-medium">
+            Quando uma troca fica perto, a conta com o custo estimado aparece nas Fixas. Pagar a conta marca a troca como feita.
+          </p>
+        </div>
+      </Card>
+
+      {editing && (
+        <div className="fixed inset-0 z-[60] flex items-end justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setEditing(null)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-5 shadow-2xl animate-in slide-in-from-bottom border border-slate-200 dark:border-slate-800">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-black dark:text-white leading-none">{editing.id ? 'Editar Plano' : 'Novo Plano'}</h3>
+              <button onClick={() => setEditing(null)} className="bg-slate-100 dark:bg-slate-800 p-2 rounded-full text-slate-500"><X size={20} /></button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input type="text" required value={name} onChange={e => setName(e.target.value)} placeholder="Troca de óleo" className={`${inputClass} p-4 rounded-2xl`} />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="space-y-1">
+                  <span className={labelClass}>A cada (km)</span>
+                  <input type="text" inputMode="decimal" value={intervalKm} onChange={e => { setIntervalKm(e.target.value); setError(null); }} placeholder="1000" className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Ou a cada (meses)</span>
+                  <input type="number" min="1" inputMode="numeric" value={intervalMonths} onChange={e => { setIntervalMonths(e.target.value); setError(null); }} placeholder="6" className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Última vez</span>
+                  <input type="date" required value={doneDate} onChange={e => setDoneDate(e.target.value)} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Km na última vez</span>
+                  <input type="text" inputMode="decimal" value={doneKm} onChange={e => { setDoneKm(e.target.value); setError(null); }} placeholder="12345" className={inputClass} />
+                </label>
+              </div>
+              <label className="block space-y-1">
+                <span className={labelClass}>Custo estimado</span>
+                <input type="number" step="0.01" value={cost} onChange={e => setCost(e.target.value)} placeholder="0,00" className={inputClass} />
+              </label>
+              {error && (
+                <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+                  <AlertCircle size={14} className="shrink-0" />
+                  {error}
+                </div>
+              )}
+              <div className="flex gap-2">
+                {editing.id && (
+                  <button type="button" onClick={() => { onDeletePlan(editing.id); setEditing(null); }} className="p-4 rounded-2xl bg-rose-50 dark:bg-rose-950/20 text-rose-500">
+                    <Trash2 size={18} />
+                  </button>
+                )}
+                <button type="submit" className="flex-1 py-4 rounded-2xl font-black text-sm text-white bg-slate-900 dark:bg-white dark:text-slate-900 shadow-xl active:scale-95 transition-all">Salvar Plano</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {completing && (
+        <div className="fixed inset-0 z-[60] flex items-end justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setCompleting(null)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-5 shadow-2xl animate-in slide-in-from-bottom border border-slate-200 dark:border-slate-800">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-black dark:text-white leading-none">{completing.name}</h3>
+              <button onClick={() => setCompleting(null)} className="bg-slate-100 dark:bg-slate-800 p-2 rounded-full text-slate-500"><X size={20} /></button>
+            </div>
+            <form onSubmit={handleComplete} className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="space-y-1">
+                  <span className={labelClass}>Feita em</span>
+                  <input type="date" required value={doneDate} onChange={e => setDoneDate(e.target.value)} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Odômetro</span>
+                  <input type="text" inputMode="decimal" value={doneKm} onChange={e => setDoneKm(e.target.value)} placeholder="12345" className={inputClass} />
+                </label>
+              </div>
+              <label className="block space-y-1">
+                <span className={labelClass}>Quanto custou</span>
+                <input type="number" step="0.01" value={cost} onChange={e => setCost(e.target.value)} placeholder="0,00" className={inputClass} />
+              </label>
+              <p className="text-[9px] font-bold text-slate-400 px-1">
+                {completing.pendingExpenseId ? 'A conta pendente desta troca fica paga com este valor.' : 'O valor entra como gasto do dia.'}
+              </p>
+              <button type="submit" className="w-full py-4 rounded-2xl font-black text-sm text-white bg-emerald-600 shadow-xl active:scale-95 transition-all">Registrar Troca</button>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Card } from './ui/Card';
+import { Upload, X, CheckCircle2, AlertCircle, Receipt } from './Icons';
+import { Transaction, TrashItem } from '../types';
+import { formatCurrency, formatDate } from '../utils';
+import { OfxEntry, OfxError, decodeOfxFile, parseOfx } from '../services/ofx';
+import { v4 as uuidv4 } from 'uuid';
+
+interface OfxImportCardProps {
+  transactions: Transaction[];
+  trash: TrashItem[];
+  onImportTransactions: (transactions: Transaction[]) => void;
+}
+
+export const OfxImportCard: React.FC<OfxImportCardProps> = ({ transactions, trash, onImportTransactions }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [entries, setEntries] = useState<OfxEntry[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [lastImportCount, setLastImportCount] = useState<number | null>(null);
+
+  // Os da lixeira contam como importados: restaurá-los depois criaria duplicados
+  const importedIds = useMemo(() => {
+    const trashed = trash.flatMap(item => item.kind === 'transaction' ? [item.record] : []);
+    return new Set([...transactions, ...trashed].filter(t => t.externalId).map(t => t.externalId));
+  }, [transactions, trash]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      // Alguns bancos repetem o mesmo FITID no arquivo; cada lançamento entra uma vez só
+      const parsed = parseOfx(decodeOfxFile(await file.arrayBuffer()))
+        .filter((entry, index, all) => all.findIndex(other => other.externalId === entry.externalId) === index)
+        .sort((a, b) => b.date.localeCompare(a.date));
+      if (parsed.length === 0) throw new OfxError('Nenhum lançamento encontrado no extrato.');
+
+      setEntries(parsed);
+      setSelectedIds(new Set(parsed.filter(entry => !importedIds.has(entry.externalId)).map(entry => entry.externalId)));
+      setError(null);
+      setLastImportCount(null);
+    } catch (err) {
+      setError(err instanceof OfxError ? err.message : 'Não foi possível ler o arquivo.');
+    }
+  };
+
+  const toggleEntry = (externalId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(externalId)) next.delete(externalId);
+    else next.add(externalId);
+    setSelectedIds(next);
+  };
+
+  const handleConfirm = () => {
+    if (!entries) return;
+    const newTransactions: Transaction[] = entries
+      .filter(entry => selectedIds.has(entry.externalId))
+      .map(entry => ({
+        id: uuidv4(),
+        amount: entry.amount,
+        description: entry.description,
+        date: entry.date,
+        type: entry.type,
+        externalId: entry.externalId
+      }));
+
+    onImportTransactions(newTransactions);
+    setLastImportCount(newTransactions.length);
+    setEntries(null);
+  };
+
+  const selectedTotal = entries
+    ? entries.filter(entry => selectedIds.has(entry.externalId)).reduce((acc, entry) => acc + (entry.type === 'income' ? entry.amount : -entry.amount), 0)
+    : 0;
+
+  return (
+    <>
+      <Card title="Extrato do Banco (OFX)" icon={<Receipt size={16} className="text-amber-500" />} className="p-5">
+        <div className="mt-1 space-y-2.5">
+          <p className="text-[10px] font-bold text-slate-400">
+            Importe o arquivo OFX do Nubank, Inter, Caixa e outros bancos. Lançamentos já importados são ignorados.
+          </p>
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="w-full py-2.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold"
+          >
+            <Upload size={12} />
+            Escolher arquivo OFX
+          </button>
+          <input ref={inputRef} type="file" accept=".ofx,application/x-ofx" onChange={handleFileChange} className="hidden" />
+          {error && (
+            <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+              <AlertCircle size={14} className="shrink-0" />
+              {error}
+            </div>
+          )}
+          {lastImportCount !== null && (
+            <div className="text-[10px] text-emerald-600 font-bold bg-emerald-50 dark:bg-emerald-950/20 p-2.5 rounded-xl flex items-center gap-2">
+              <CheckCircle2 size={14} className="shrink-0" />
+              {lastImportCount === 1 ? '1 lançamento importado' : `${lastImportCount} lançamentos importados`}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {entries && (
+        <div className="fixed inset-0 z-[120] flex items-end justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setEntries(null)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-6 shadow-2xl animate-in slide-in-from-bottom border border-slate-200 dark:border-slate-800 flex flex-col max-h-[85vh]">
+            <div className="flex justify-between items-center mb-4 shrink-0">
+              <div>
+                <h3 className="text-lg font-black text-slate-900 dark:text-white leading-tight">Revisar Extrato</h3>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-0.5">
+                  {selectedIds.size} de {entries.length} selecionados
+                </p>
+              </div>
+              <button onClick={() => setEntries(null)} className="bg-slate-100 dark:bg-slate-800 p-2 rounded-full text-slate-500"><X size={20} /></button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto pr-1 no-scrollbar space-y-2 pb-4">
+              {entries.map(entry => {
+                const alreadyImported = importedIds.has(entry.externalId);
+                const isSelected = selectedIds.has(entry.externalId);
+                return (
+                  <button
+                    key={entry.externalId}
+                    type="button"
+                    disabled={alreadyImported}
+                    onClick={() => toggleEntry(entry.externalId)}
+                    className={`w-full p-3 rounded-2xl border flex items-center justify-between gap-3 text-left transition-all ${alreadyImported ? 'opacity-40 border-slate-100 dark:border-slate-800' : isSelected ? 'bg-slate-50 dark:bg-slate-950 border-amber-500/50' : 'border-slate-100 dark:border-slate-800'}`}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className={`w-5 h-5 rounded-md border-2 flex items-center justify-center shrink-0 ${isSelected ? 'bg-amber-500 border-amber-500 text-white' : 'border-slate-300 dark:border-slate-600'}`}>
+                        {isSelected && <CheckCircle2 size={12} />}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-xs font-bold text-slate-900 dark:text-slate-100 truncate">{entry.description}</p>
+                        <p className="text-[9px] font-bold text-slate-400 uppercase">
+                          {formatDate(`${entry.date}T12:00:00`)}{alreadyImported && ' • Já importado'}
+                        </p>
+                      </div>
+                    </div>
+                    <span className={`text-xs font-black shrink-0 ${entry.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                      {entry.type === 'income' ? '+' : '-'}{formatCurrency(entry.amount)}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="pt-4 border-t border-slate-100 dark:border-slate-800 shrink-0 space-y-3">
+              <div className="flex justify-between items-center px-1">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Saldo selecionado</span>
+                <span className={`text-sm font-black ${selectedTotal >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(selectedTotal)}</span>
+              </div>
+              <button
+                onClick={handleConfirm}
+                disabled={selectedIds.size === 0}
+                className="w-full py-4 rounded-2xl font-black text-sm text-white bg-amber-500 disabled:opacity-40 shadow-xl active:scale-95 transition-all"
+              >
+                Importar {selectedIds.size} {selectedIds.size === 1 ? 'lançamento' : 'lançamentos'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { Lock, AlertCircle, CheckCircle2 } from './Icons';
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH, isValidPin } from '../services/pinLock';
+import { StorageError } from '../services/repository';
+
+interface PinCardProps {
+  hasPin: boolean;
+  onSetPin: (pin: string | null) => Promise<void>;
+}
+
+export const PinCard: React.FC<PinCardProps> = ({ hasPin, onSetPin }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setPin('');
+    setConfirmPin('');
+    setError(null);
+  };
+
+  const save = async (value: string | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSetPin(value);
+      resetForm();
+    } catch (e) {
+      setError(e instanceof StorageError ? e.message : 'Não foi possível salvar. Tente de novo.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setError(`O PIN deve ter de ${PIN_MIN_LENGTH} a ${PIN_MAX_LENGTH} números.`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('Os PINs não conferem.');
+      return;
+    }
+    save(pin);
+  };
+
+  const onlyDigits = (value: string) => value.replace(/\D/g, '').slice(0, PIN_MAX_LENGTH);
+
+  return (
+    <Card title="Bloqueio com PIN" icon={<Lock size={16} className="text-amber-500" />} className="p-5">
+      <div className="mt-1 space-y-2.5">
+        <p className="text-[10px] font-bold text-slate-400">
+          Pede o PIN ao abrir o app e criptografa os dados salvos neste aparelho. Sem o PIN não há como recuperá-los, então mantenha um backup.
+        </p>
+
+        {hasPin && !showForm && (
+          <div className="text-[10px] text-emerald-600 font-bold bg-emerald-50 dark:bg-emerald-950/20 p-2.5 rounded-xl flex items-center gap-2">
+            <CheckCircle2 size={14} className="shrink-0" />
+            PIN ativo
+          </div>
+        )}
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="p-3.5 border border-dashed border-slate-200 dark:border-slate-800 rounded-2xl space-y-3 animate-in slide-in-from-top-2">
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase">{hasPin ? 'Novo PIN' : 'Criar PIN'}</h4>
+            <input
+              autoFocus
+              type="password"
+              inputMode="numeric"
+              placeholder={`${PIN_MIN_LENGTH} a ${PIN_MAX_LENGTH} números`}
+              value={pin}
+              onChange={e => setPin(onlyDigits(e.target.value))}
+              className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs tracking-widest"
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              placeholder="Repita o PIN"
+              value={confirmPin}
+              onChange={e => setConfirmPin(onlyDigits(e.target.value))}
+              className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs tracking-widest"
+            />
+            <div className="flex gap-2">
+              <button type="submit" disabled={isSaving} className="flex-1 bg-amber-500 disabled:opacity-40 text-white py-2.5 rounded-xl font-bold text-[10px] shadow-lg">
+                {isSaving ? 'Criptografando...' : 'Salvar PIN'}
+              </button>
+              <button type="button" onClick={resetForm} className="px-3 text-slate-400 text-[10px] font-bold">Cancelar</button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex-1 py-2.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold"
+            >
+              <Lock size={12} />
+              {hasPin ? 'Trocar PIN' : 'Ativar PIN'}
+            </button>
+            {hasPin && (
+              <button
+                onClick={() => save(null)}
+                disabled={isSaving}
+                className="px-3 py-2.5 bg-rose-50 dark:bg-rose-900/20 text-rose-600 disabled:opacity-40 rounded-xl text-[10px] font-bold"
+              >
+                Remover
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+            <AlertCircle size={14} className="shrink-0" />
+            {error}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction, CatalogItem } from '../types';
+import { Card } from './ui/Card';
+import { formatCurrency, getBillingPeriodRange, parseDateLocal } from '../utils';
+import { ChevronLeft, ChevronRight, Smartphone, TrendingUp, TrendingDown } from './Icons';
+import { CatalogIcon } from './ui/CatalogIcon';
+import { findCatalogItem } from '../services/catalog';
+
+interface PlatformReportProps {
+  transactions: Transaction[];
+  catalog: CatalogItem[];
+  startDayOfMonth: number;
+  endDayOfMonth?: number;
+  onBack: () => void;
+}
+
+// Quantos ciclos entram na tendência, contando o ciclo escolhido
+const TREND_CYCLES = 6;
+const NO_PLATFORM = 'Sem app';
+
+interface PlatformRow {
+  platform: string;
+  total: number;
+  count: number;
+  share: number;
+  averageTicket: number;
+  previousTotal: number;
+  history: number[]; // Total por ciclo, do mais antigo para o escolhido
+}
+
+export const PlatformReport: React.FC<PlatformReportProps> = ({ transactions, catalog, startDayOfMonth, endDayOfMonth, onBack }) => {
+  const [viewDate, setViewDate] = useState(new Date());
+
+  // Volta um ciclo de cada vez a partir da véspera do início; recuar meses a partir do dia 31
+  // pularia os meses mais curtos
+  const cycles = useMemo(() => {
+    const ranges = [getBillingPeriodRange(viewDate, startDayOfMonth, endDayOfMonth)];
+    while (ranges.length < TREND_CYCLES) {
+      const reference = new Date(ranges[0].startDate);
+      reference.setDate(reference.getDate() - 1);
+      ranges.unshift(getBillingPeriodRange(reference, startDayOfMonth, endDayOfMonth));
+    }
+    return ranges;
+  }, [viewDate, startDayOfMonth, endDayOfMonth]);
+
+  const { startDate, endDate } = cycles[cycles.length - 1];
+
+  const mainMonthLabel = useMemo(() => {
+    const midPoint = new Date((startDate.getTime() + endDate.getTime()) / 2);
+    return new Intl.DateTimeFormat('pt-BR', { month: 'long', year: 'numeric' }).format(midPoint);
+  }, [startDate, endDate]);
+
+  const periodLabel = useMemo(() => {
+    const fmt = new Intl.DateTimeFormat('pt-BR', { day: '2-digit', month: 'short' });
+    return `${fmt.format(startDate)} - ${fmt.format(endDate)}`;
+  }, [startDate, endDate]);
+
+  const changePeriod = (offset: number) => {
+    const newDate = new Date(viewDate);
+    newDate.setMonth(newDate.getMonth() + offset);
+    setViewDate(newDate);
+  };
+
+  const { rows, cycleTotal, cycleCount } = useMemo(() => {
+    const byPlatform: Record<string, { totals: number[]; count: number }> = {};
+
+    transactions
+      .filter(t => t.type === 'income')
+      .forEach(t => {
+        const tDate = parseDateLocal(t.date);
+        const cycleIndex = cycles.findIndex(c => tDate >= c.startDate && tDate <= c.endDate);
+        if (cycleIndex === -1) return;
+
+        const platform = t.platform || NO_PLATFORM;
+        if (!byPlatform[platform]) byPlatform[platform] = { totals: new Array(TREND_CYCLES).fill(0), count: 0 };
+        byPlatform[platform].totals[cycleIndex] += t.amount;
+        if (cycleIndex === TREND_CYCLES - 1) byPlatform[platform].count++;
+      });
+
+    const current = TREND_CYCLES - 1;
+    const total = Object.values(byPlatform).reduce((acc, p) => acc + p.totals[current], 0);
+    const count = Object.values(byPlatform).reduce((acc, p) => acc + p.count, 0);
+
+    const platformRows: PlatformRow[] = Object.entries(byPlatform)
+      .map(([platform, { totals, count }]) => ({
+        platform,
+        total: totals[current],
+        count,
+        share: total > 0 ? totals[current] / total : 0,
+        averageTicket: count > 0 ? totals[current] / count : 0,
+        previousTotal: totals[current - 1],
+        history: totals
+      }))
+      .sort((a, b) => b.total - a.total || b.history.reduce((x, y) => x + y, 0) - a.history.reduce((x, y) => x + y, 0));
+
+    return { rows: platformRows, cycleTotal: total, cycleCount: count };
+  }, [transactions, cycles]);
+
+  const hasUnassigned = rows.some(r => r.platform === NO_PLATFORM);
+
+  return (
+    <div className="flex flex-col gap-5 pb-32 pt-4 px-2">
+      <header className="px-2 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-900 dark:hover:text-white rounded-xl transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-xl font-black text-slate-900 dark:text-slate-100">Ganhos por App 📱</h1>
+          <p className="text-slate-500 dark:text-slate-400 text-xs">Quanto cada app rendeu no ciclo.</p>
+        </div>
+      </header>
+
+      <div className="flex items-center justify-between bg-white/80 dark:bg-slate-900/60 backdrop-blur-xl p-1.5 rounded-[1.25rem] border border-slate-200/50 dark:border-slate-800 shadow-sm">
+        <button onClick={() => changePeriod(-1)} className="p-2 text-slate-400 hover:text-slate-900 dark:hover:text-white active:bg-slate-100 dark:active:bg-slate-800 rounded-xl transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <div className="text-center">
+          <div className="text-sm font-bold capitalize text-slate-900 dark:text-slate-100">{mainMonthLabel}</div>
+          <div className="text-[10px] text-slate-500 font-medium">{periodLabel}</div>
+        </div>
+        <button onClick={() => changePeriod(1)} className="p-2 text-slate-400 hover:text-slate-900 dark:hover:text-white active:bg-slate-100 dark:active:bg-slate-800 rounded-xl transition-colors">
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Card title="Ganhos do Ciclo" value={formatCurrency(cycleTotal)} icon={<TrendingUp size={14} className="text-emerald-500" />} valueClassName="text-base" className="p-4" />
+        <Card title="Ticket Médio" value={formatCurrency(cycleCount > 0 ? cycleTotal / cycleCount : 0)} icon={<Smartphone size={14} className="text-amber-500" />} valueClassName="text-base" className="p-4" />
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-12 text-slate-400 text-xs font-bold">
+          Nenhum ganho nos últimos {TREND_CYCLES} ciclos.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rows.map(row => {
+            const maxHistory = Math.max(...row.history, 1);
+            const change = row.previousTotal > 0 ? (row.total - row.previousTotal) / row.previousTotal : null;
+            const item = findCatalogItem(catalog, 'platform', row.platform);
+
+            return (
+              <div key={row.platform} className="p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-sm space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-9 h-9 rounded-xl flex items-center justify-center text-white shrink-0 bg-slate-400" style={item ? { backgroundColor: item.color } : undefined}>
+                      <CatalogIcon icon={item?.icon || 'smartphone'} size={16} />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-black text-slate-900 dark:text-white truncate">{row.platform}</p>
+                      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tighter">
+                        {row.count} {row.count === 1 ? 'ganho' : 'ganhos'} · Ticket {formatCurrency(row.averageTicket)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-sm font-black text-emerald-600">{formatCurrency(row.total)}</p>
+                    <p className="text-[9px] font-bold text-slate-400">{Math.round(row.share * 100)}% do total</p>
+                  </div>
+                </div>
+
+                <div className="w-full bg-slate-100 dark:bg-slate-800 h-1.5 rounded-full overflow-hidden">
+                  <div className="bg-emerald-500 h-full rounded-full transition-all duration-700" style={{ width: `${row.share * 100}%` }} />
+                </div>
+
+                <div className="flex items-end justify-between gap-3">
+                  <div className="flex items-end gap-1 h-8 flex-1">
+                    {row.history.map((value, i) => (
+                      <div
+                        key={i}
+                        title={formatCurrency(value)}
+                        className={`flex-1 rounded-t ${i === row.history.length - 1 ? 'bg-emerald-500' : 'bg-slate-200 dark:bg-slate-700'}`}
+                        style={{ height: `${Math.max((value / maxHistory) * 100, 4)}%` }}
+                      />
+                    ))}
+                  </div>
+                  <div className="text-[9px] font-black shrink-0 w-20 text-right">
+                    {change === null ? (
+                      <span className="text-slate-400">{row.total > 0 ? 'Novo no ciclo' : 'Sem ganhos'}</span>
+                    ) : (
+                      <span className={`inline-flex items-center gap-1 ${change >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {change >= 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                        {change >= 0 ? '+' : ''}{Math.round(change * 100)}%
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <p className="text-[9px] text-slate-400 font-medium px-2">
+            As barras mostram os últimos {TREND_CYCLES} ciclos; a variação compara com o ciclo anterior.
+            {hasUnassigned && ` Ganhos lançados sem app aparecem em "${NO_PLATFORM}".`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { Users, Edit2, Trash2, Plus, CheckCircle2, AlertCircle } from './Icons';
+import { Profile } from '../types';
+
+interface ProfilesCardProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitch: (id: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ProfilesCard: React.FC<ProfilesCardProps> = ({
+  profiles, activeProfileId, onSwitch, onAdd, onRename, onDelete
+}) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [profileToDelete, setProfileToDelete] = useState<Profile | null>(null);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setName('');
+  };
+
+  const handleEdit = (profile: Profile) => {
+    setEditingId(profile.id);
+    setName(profile.name);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (editingId) onRename(editingId, trimmed);
+    else onAdd(trimmed);
+    resetForm();
+  };
+
+  const confirmDelete = () => {
+    if (profileToDelete) onDelete(profileToDelete.id);
+    setProfileToDelete(null);
+  };
+
+  return (
+    <>
+      <Card title="Perfis" icon={<Users size={16} className="text-sky-500" />} className="p-5">
+        <div className="mt-1 space-y-2.5">
+          <p className="text-[10px] font-bold text-slate-400">
+            Cada perfil tem seus próprios lançamentos, fixas, cartões e metas.
+          </p>
+          {profiles.map(profile => {
+            const isActive = profile.id === activeProfileId;
+            return (
+              <div key={profile.id} className={`flex items-center justify-between p-2.5 rounded-xl border ${isActive ? 'bg-sky-50 dark:bg-sky-950/20 border-sky-200 dark:border-sky-900/40' : 'bg-slate-50 dark:bg-slate-900/50 border-slate-100 dark:border-slate-800'}`}>
+                <button onClick={() => onSwitch(profile.id)} className="flex items-center gap-2.5 flex-1 text-left min-w-0">
+                  <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center shrink-0 ${isActive ? 'bg-sky-500 border-sky-500 text-white' : 'border-slate-300 dark:border-slate-600'}`}>
+                    {isActive && <CheckCircle2 size={12} />}
+                  </div>
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">{profile.name}</span>
+                    <span className="text-[9px] text-slate-400 uppercase">{isActive ? 'Em uso' : 'Toque para usar'}</span>
+                  </div>
+                </button>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleEdit(profile)}
+                    className="p-1.5 text-slate-300 hover:text-amber-500 transition-colors"
+                  >
+                    <Edit2 size={14} />
+                  </button>
+                  {!isActive && (
+                    <button
+                      onClick={() => setProfileToDelete(profile)}
+                      className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {showForm ? (
+            <form onSubmit={handleSubmit} className="mt-3 p-3.5 border border-dashed border-slate-200 dark:border-slate-800 rounded-2xl space-y-3 animate-in slide-in-from-top-2">
+              <h4 className="text-[10px] font-bold text-slate-400 uppercase">
+                {editingId ? 'Renomear' : 'Novo'} Perfil
+              </h4>
+              <input
+                autoFocus
+                type="text"
+                placeholder="Ex.: Moto, Pessoal, João"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs"
+              />
+              <div className="flex gap-2">
+                <button type="submit" className="flex-1 bg-sky-600 text-white py-2.5 rounded-xl font-bold text-[10px] shadow-lg">
+                  {editingId ? 'Salvar' : 'Criar e usar'}
+                </button>
+                <button type="button" onClick={resetForm} className="px-3 text-slate-400 text-[10px] font-bold">Cancelar</button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setShowForm(true)}
+              className="w-full py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold transition-all"
+            >
+              <Plus size={12} />
+              Adicionar Perfil
+            </button>
+          )}
+        </div>
+      </Card>
+
+      {profileToDelete && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center p-6">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={() => setProfileToDelete(null)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-xs rounded-[2rem] p-6 shadow-2xl animate-in zoom-in-95">
+             <div className="w-12 h-12 bg-rose-100 dark:bg-rose-900/30 text-rose-600 rounded-full flex items-center justify-center mx-auto mb-4">
+                <AlertCircle size={28} />
+             </div>
+             <h3 className="text-center font-bold text-slate-900 dark:text-white mb-2 text-sm">Excluir "{profileToDelete.name}"?</h3>
+             <p className="text-center text-[11px] text-slate-500 mb-6">Todos os dados deste perfil serão apagados deste aparelho. Isso não pode ser desfeito.</p>
+             <div className="flex gap-3">
+                <button onClick={() => setProfileToDelete(null)} className="flex-1 py-3 rounded-xl font-bold text-[11px] text-slate-400 bg-slate-50 dark:bg-slate-800">Cancelar</button>
+                <button onClick={confirmDelete} className="flex-1 py-3 rounded-xl font-bold text-[11px] text-white bg-rose-600 shadow-lg shadow-rose-500/20">Excluir</button>
+             </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
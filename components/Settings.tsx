@@ -1,10 +1,22 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { Card } from './ui/Card';
-import { Trash2, Calendar, Edit2, Lock, X, Users, Activity, BarChart3, Smartphone, ChevronRight, CreditCard as CardIcon, Plus, CheckCircle2, Clock } from './Icons';
-import { GoalSettings, Transaction, CreditCard } from '../types';
+import { Trash2, Calendar, Edit2, Lock, X, Users, Activity, BarChart3, Smartphone, ChevronRight, CreditCard as CardIcon, Plus, CheckCircle2, Clock, Download, Upload, AlertCircle } from './Icons';
+import { GoalSettings, Transaction, CreditCard, FixedExpense, TrashItem, Profile, CatalogItem, EntryTemplate, Account } from '../types';
 import { getISODate, formatCurrency, getBillingPeriodRange } from '../utils';
 import { v4 as uuidv4 } from 'uuid';
+import { CsvExportCard } from './CsvExportCard';
+import { OfxImportCard } from './OfxImportCard';
+import { TrashCard } from './TrashCard';
+import { ProfilesCard } from './ProfilesCard';
+import { SyncCard } from './SyncCard';
+import { PinCard } from './PinCard';
+import { CatalogCard } from './CatalogCard';
+import { TemplatesCard } from './TemplatesCard';
+import { AccountsCard } from './AccountsCard';
+import { Backup, BackupError, ImportMode, parseBackup } from '../services/backup';
+import { SyncConfig } from '../services/sync';
+import { SyncStatus } from '../hooks/useSync';
 
 interface SettingsProps {
   onClearData: () => void;
@@ -13,16 +25,48 @@ interface SettingsProps {
   currentTheme: 'light' | 'dark';
   onToggleTheme: () => void;
   transactions: Transaction[];
+  fixedExpenses: FixedExpense[];
   creditCards: CreditCard[];
   onAddCard: (card: CreditCard) => void;
   onUpdateCard: (card: CreditCard) => void;
   onDeleteCard: (id: string) => void;
+  catalog: CatalogItem[];
+  onSaveCatalogItem: (item: CatalogItem) => void;
+  onMoveCatalogItem: (id: string, offset: -1 | 1) => void;
+  templates: EntryTemplate[];
+  onSaveTemplate: (template: EntryTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  accounts: Account[];
+  onSaveAccount: (account: Account) => void;
+  onExportBackup: () => void;
+  onImportBackup: (backup: Backup, mode: ImportMode) => void;
+  onImportTransactions: (transactions: Transaction[]) => void;
+  trash: TrashItem[];
+  onRestoreTrashItem: (item: TrashItem) => void;
+  onPurgeTrashItem: (id: string) => void;
+  onEmptyTrash: () => void;
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (id: string) => void;
+  onAddProfile: (name: string) => void;
+  onRenameProfile: (id: string, name: string) => void;
+  onDeleteProfile: (id: string) => void;
+  syncConfig: SyncConfig | null;
+  syncStatus: SyncStatus;
+  syncError: string | null;
+  lastSyncedAt?: string;
+  onSaveSyncConfig: (config: SyncConfig | null) => void;
+  onSyncNow: () => void;
+  hasPin: boolean;
+  onSetPin: (pin: string | null) => Promise<void>;
 }
 
 const CARD_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#0f172a'];
 
 export const Settings: React.FC<SettingsProps> = ({ 
-  onClearData, goalSettings, onUpdateSettings, currentTheme, onToggleTheme, transactions, creditCards, onAddCard, onUpdateCard, onDeleteCard
+  onClearData, goalSettings, onUpdateSettings, currentTheme, onToggleTheme, transactions, fixedExpenses, creditCards, onAddCard, onUpdateCard, onDeleteCard, catalog, onSaveCatalogItem, onMoveCatalogItem, templates, onSaveTemplate, onDeleteTemplate, accounts, onSaveAccount, onExportBackup, onImportBackup, onImportTransactions, trash, onRestoreTrashItem, onPurgeTrashItem, onEmptyTrash,
+  profiles, activeProfileId, onSwitchProfile, onAddProfile, onRenameProfile, onDeleteProfile,
+  syncConfig, syncStatus, syncError, lastSyncedAt, onSaveSyncConfig, onSyncNow, hasPin, onSetPin
 }) => {
   const [showCardForm, setShowCardForm] = useState(false);
   const [editingCardId, setEditingCardId] = useState<string | null>(null);
@@ -31,6 +75,10 @@ export const Settings: React.FC<SettingsProps> = ({
   const [cardColor, setCardColor] = useState(CARD_COLORS[0]);
   const [hasLimitOption, setHasLimitOption] = useState(true);
 
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<Backup | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+
   const handleAddCardSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!cardName) return;
@@ -69,6 +117,25 @@ export const Settings: React.FC<SettingsProps> = ({
     setShowCardForm(true);
   };
 
+  const handleBackupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingBackup(parseBackup(await file.text()));
+      setBackupError(null);
+    } catch (error) {
+      setBackupError(error instanceof BackupError ? error.message : 'Não foi possível ler o arquivo.');
+    }
+  };
+
+  const handleConfirmImport = (mode: ImportMode) => {
+    if (!pendingBackup) return;
+    onImportBackup(pendingBackup, mode);
+    setPendingBackup(null);
+  };
+
   const handleStartDayChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     onUpdateSettings({ ...goalSettings, startDayOfMonth: parseInt(e.target.value) });
   };
@@ -96,6 +163,17 @@ export const Settings: React.FC<SettingsProps> = ({
         <h1 className="text-xl font-bold text-slate-900 dark:text-slate-100">Ajustes ⚙️</h1>
       </header>
 
+      <ProfilesCard 
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+        onSwitch={onSwitchProfile}
+        onAdd={onAddProfile}
+        onRename={onRenameProfile}
+        onDelete={onDeleteProfile}
+      />
+
+      <PinCard hasPin={hasPin} onSetPin={onSetPin} />
+
       <Card title="Aparência" icon={<Edit2 size={16} className="text-blue-500" />} className="p-5">
         <div className="flex items-center justify-between mt-1">
           <span className="text-slate-700 dark:text-slate-300 text-sm font-medium">Modo Escuro</span>
@@ -261,6 +339,66 @@ export const Settings: React.FC<SettingsProps> = ({
         </div>
       </Card>
 
+      <CatalogCard catalog={catalog} onSaveItem={onSaveCatalogItem} onMoveItem={onMoveCatalogItem} />
+
+      <AccountsCard accounts={accounts} catalog={catalog} onSaveAccount={onSaveAccount} />
+
+      <TemplatesCard templates={templates} catalog={catalog} onSaveTemplate={onSaveTemplate} onDeleteTemplate={onDeleteTemplate} />
+
+      <SyncCard 
+        key={activeProfileId}
+        config={syncConfig}
+        status={syncStatus}
+        error={syncError}
+        lastSyncedAt={lastSyncedAt}
+        onSaveConfig={onSaveSyncConfig}
+        onSyncNow={onSyncNow}
+      />
+
+      <Card title="Backup" icon={<Download size={16} className="text-emerald-500" />} className="p-5">
+        <div className="mt-1 space-y-2.5">
+          <p className="text-[10px] font-bold text-slate-400">
+            Guarde uma cópia de tudo (lançamentos, fixas, cartões e ajustes) fora do celular.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button 
+              onClick={onExportBackup}
+              className="py-2.5 bg-emerald-600 text-white rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold shadow-lg"
+            >
+              <Download size={12} />
+              Exportar backup
+            </button>
+            <button 
+              onClick={() => backupInputRef.current?.click()}
+              className="py-2.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold"
+            >
+              <Upload size={12} />
+              Importar
+            </button>
+          </div>
+          <input ref={backupInputRef} type="file" accept="application/json,.json" onChange={handleBackupFileChange} className="hidden" />
+          {backupError && (
+            <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+              <AlertCircle size={14} className="shrink-0" />
+              {backupError}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <OfxImportCard transactions={transactions} trash={trash} onImportTransactions={onImportTransactions} />
+
+      <CsvExportCard 
+        transactions={transactions}
+        fixedExpenses={fixedExpenses}
+        creditCards={creditCards}
+        accounts={accounts}
+        startDayOfMonth={goalSettings.startDayOfMonth}
+        endDayOfMonth={goalSettings.endDayOfMonth}
+      />
+
+      <TrashCard trash={trash} onRestore={onRestoreTrashItem} onPurge={onPurgeTrashItem} onEmpty={onEmptyTrash} />
+
       <Card title="Sistema" className="p-5">
         <button 
           onClick={onClearData}
@@ -270,6 +408,51 @@ export const Settings: React.FC<SettingsProps> = ({
           Zerar Aplicativo
         </button>
       </Card>
+
+      {pendingBackup && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center p-6">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={() => setPendingBackup(null)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-xs max-h-[90vh] overflow-y-auto rounded-[2rem] p-6 shadow-2xl animate-in zoom-in-95">
+             <div className="w-12 h-12 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Upload size={24} />
+             </div>
+             <h3 className="text-center font-bold text-slate-900 dark:text-white mb-1 text-sm">Importar Backup</h3>
+             {pendingBackup.exportedAt && (
+               <p className="text-center text-[10px] text-slate-400 mb-4">
+                 Gerado em {new Date(pendingBackup.exportedAt).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+               </p>
+             )}
+             <div className="grid grid-cols-3 gap-2 mb-4">
+               {[
+                 { label: 'Lançamentos', count: pendingBackup.data.transactions.length },
+                 { label: 'Fixas', count: pendingBackup.data.fixedExpenses.length },
+                 { label: 'Cartões', count: pendingBackup.data.creditCards.length },
+                 { label: 'Categorias e apps', count: pendingBackup.data.catalog.length },
+                 { label: 'Atalhos', count: pendingBackup.data.templates.length },
+                 { label: 'Dias de trabalho', count: pendingBackup.data.workLogs.length },
+                 { label: 'Turnos', count: pendingBackup.data.shifts.length },
+                 { label: 'Manutenções', count: pendingBackup.data.maintenancePlans.length },
+                 { label: 'Contas', count: pendingBackup.data.accounts.length },
+                 { label: 'Transferências', count: pendingBackup.data.transfers.length },
+                 { label: 'Lixeira', count: pendingBackup.data.trash.length },
+               ].map(item => (
+                 <div key={item.label} className="p-2 bg-slate-50 dark:bg-slate-950 rounded-xl border border-slate-100 dark:border-slate-800 text-center">
+                   <p className="text-base font-black text-slate-900 dark:text-white">{item.count}</p>
+                   <p className="text-[8px] font-bold text-slate-400 uppercase">{item.label}</p>
+                 </div>
+               ))}
+             </div>
+             <p className="text-center text-[11px] text-slate-500 mb-5">
+               <b>Mesclar</b> junta o backup aos dados atuais, sem duplicar. <b>Substituir</b> apaga o que está no aparelho, inclusive metas e configurações.
+             </p>
+             <div className="space-y-2">
+                <button onClick={() => handleConfirmImport('merge')} className="w-full py-3 rounded-xl font-bold text-[11px] text-white bg-emerald-600 shadow-lg shadow-emerald-500/20">Mesclar</button>
+                <button onClick={() => handleConfirmImport('replace')} className="w-full py-3 rounded-xl font-bold text-[11px] text-white bg-rose-600 shadow-lg shadow-rose-500/20">Substituir tudo</button>
+                <button onClick={() => setPendingBackup(null)} className="w-full py-3 rounded-xl font-bold text-[11px] text-slate-400 bg-slate-50 dark:bg-slate-800">Cancelar</button>
+             </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
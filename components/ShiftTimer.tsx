@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Play, Pause, Square, Timer, X, AlertCircle } from './Icons';
+import { Shift } from '../types';
+import { getISODate } from '../utils';
+import { getOpenShift, isShiftPaused, getShiftWorkedMs, getShiftMinutesByDay, startShift, toggleShiftPause, endShift } from '../services/shifts';
+import { formatDuration } from '../services/workLog';
+import { v4 as uuidv4 } from 'uuid';
+
+interface ShiftTimerProps {
+  shifts: Shift[];
+  onSaveShift: (shift: Shift, label: string) => void;
+}
+
+// Turno aberto por mais que isso provavelmente foi esquecido ligado
+const FORGOTTEN_SHIFT_HOURS = 14;
+
+const formatClock = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return [h, m, s].map(n => n.toString().padStart(2, '0')).join(':');
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+export const ShiftTimer: React.FC<ShiftTimerProps> = ({ shifts, onSaveShift }) => {
+  const [now, setNow] = useState(new Date());
+  const [showEnd, setShowEnd] = useState(false);
+  const [endTime, setEndTime] = useState('');
+
+  const openShift = getOpenShift(shifts);
+  const paused = openShift ? isShiftPaused(openShift) : false;
+
+  // O relógio só anda na tela; o tempo vem sempre dos horários gravados
+  useEffect(() => {
+    if (!openShift) return;
+    setNow(new Date());
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, [openShift?.id]);
+
+  const todayMinutes = useMemo(() => getShiftMinutesByDay(shifts, now)[getISODate(now)] || 0, [shifts, now]);
+
+  const handleStart = () => {
+    if (navigator.vibrate) navigator.vibrate(15);
+    onSaveShift(startShift(uuidv4()), 'Turno iniciado');
+  };
+
+  const handleTogglePause = () => {
+    if (!openShift) return;
+    onSaveShift(toggleShiftPause(openShift), paused ? 'Turno retomado' : 'Turno pausado');
+  };
+
+  const openEndSheet = () => {
+    setEndTime(formatTime(new Date()));
+    setShowEnd(true);
+  };
+
+  // O horário escolhido é o mais recente que não passa de agora, então "23:40" depois da meia-noite cai no dia anterior
+  const handleEnd = () => {
+    if (!openShift) return;
+    const current = new Date();
+    const [h, m] = endTime.split(':').map(Number);
+    const end = new Date(current);
+    end.setHours(h || 0, m || 0, 0, 0);
+    if (end > current) end.setDate(end.getDate() - 1);
+    onSaveShift(endShift(openShift, end), 'Turno encerrado');
+    setShowEnd(false);
+  };
+
+  const hoursOpen = openShift ? (now.getTime() - new Date(openShift.start).getTime()) / 3600000 : 0;
+
+  return (
+    <>
+      <div className="mx-1 p-3.5 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className={`w-9 h-9 rounded-xl flex items-center justify-center shrink-0 ${openShift && !paused ? 'bg-emerald-500 text-white animate-pulse' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}>
+            <Timer size={16} />
+          </div>
+          <div className="min-w-0">
+            {openShift ? (
+              <>
+                <p className={`text-base font-black leading-none mb-1 tabular-nums ${paused ? 'text-amber-600' : 'text-slate-900 dark:text-white'}`}>
+                  {formatClock(getShiftWorkedMs(openShift, now))}
+                </p>
+                <p className="text-[8px] font-bold text-slate-400 uppercase tracking-tighter truncate">
+                  {paused ? 'Pausado' : 'Em turno'} · desde {formatTime(new Date(openShift.start))}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="text-xs font-black text-slate-800 dark:text-slate-100 leading-none mb-1">Turno</p>
+                <p className="text-[8px] font-bold text-slate-400 uppercase tracking-tighter">
+                  {todayMinutes > 0 ? `Hoje: ${formatDuration(todayMinutes)} trabalhadas` : 'Marque o início e o fim do corre'}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1.5 shrink-0">
+          {openShift ? (
+            <>
+              <button onClick={handleTogglePause} className={`px-3 py-2 rounded-xl text-[10px] font-black flex items-center gap-1.5 active:scale-95 transition-all ${paused ? 'bg-emerald-500 text-white' : 'bg-amber-100 dark:bg-amber-950/30 text-amber-700 dark:text-amber-400'}`}>
+                {paused ? <Play size={12} /> : <Pause size={12} />}
+                {paused ? 'Voltar' : 'Pausa'}
+              </button>
+              <button onClick={openEndSheet} className="px-3 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-[10px] font-black flex items-center gap-1.5 active:scale-95 transition-all">
+                <Square size={12} />
+                Encerrar
+              </button>
+            </>
+          ) : (
+            <button onClick={handleStart} className="px-3 py-2 rounded-xl bg-emerald-600 text-white text-[10px] font-black flex items-center gap-1.5 active:scale-95 transition-all">
+              <Play size={12} />
+              Iniciar
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showEnd && openShift && (
+        <div className="fixed inset-0 z-[60] flex items-end justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setShowEnd(false)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-5 shadow-2xl animate-in slide-in-from-bottom border border-slate-200 dark:border-slate-800 space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-black dark:text-white leading-none">Encerrar Turno</h3>
+              <button onClick={() => setShowEnd(false)} className="bg-slate-100 dark:bg-slate-800 p-2 rounded-full text-slate-500"><X size={20} /></button>
+            </div>
+            {hoursOpen > FORGOTTEN_SHIFT_HOURS && (
+              <div className="text-[10px] text-amber-700 dark:text-amber-400 font-bold bg-amber-50 dark:bg-amber-950/20 p-2.5 rounded-xl flex items-center gap-2">
+                <AlertCircle size={14} className="shrink-0" />
+                O turno está aberto há mais de {FORGOTTEN_SHIFT_HOURS} horas. Ajuste o horário em que você parou.
+              </div>
+            )}
+            <label className="block space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1">Terminou às</span>
+              <input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+            </label>
+            <button disabled={!endTime} onClick={handleEnd} className="w-full py-4 rounded-2xl font-black text-sm text-white bg-slate-900 dark:bg-white dark:text-slate-900 shadow-xl active:scale-95 transition-all disabled:opacity-40">
+              Encerrar Turno
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
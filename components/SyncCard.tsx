@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { Cloud, RefreshCw, AlertCircle, CheckCircle2 } from './Icons';
+import { SyncConfig } from '../services/sync';
+import { SyncStatus } from '../hooks/useSync';
+
+interface SyncCardProps {
+  config: SyncConfig | null;
+  status: SyncStatus;
+  error: string | null;
+  lastSyncedAt?: string;
+  onSaveConfig: (config: SyncConfig | null) => void;
+  onSyncNow: () => void;
+}
+
+const isValidEndpoint = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+export const SyncCard: React.FC<SyncCardProps> = ({ config, status, error, lastSyncedAt, onSaveConfig, onSyncNow }) => {
+  const [endpoint, setEndpoint] = useState(config?.endpoint || '');
+  const [token, setToken] = useState(config?.token || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = endpoint.trim();
+    if (!isValidEndpoint(trimmed)) return;
+    onSaveConfig({ endpoint: trimmed, token: token.trim() || undefined });
+  };
+
+  const handleDisconnect = () => {
+    onSaveConfig(null);
+    setEndpoint('');
+    setToken('');
+  };
+
+  if (!config) {
+    return (
+      <Card title="Sincronização" icon={<Cloud size={16} className="text-sky-500" />} className="p-5">
+        <form onSubmit={handleSubmit} className="mt-1 space-y-2.5">
+          <p className="text-[10px] font-bold text-slate-400">
+            Mantenha celular e tablet com os mesmos dados usando um servidor próprio. Alterações feitas offline nos dois aparelhos são mescladas.
+          </p>
+          <input
+            type="url"
+            placeholder="https://meu-servidor.com/api"
+            value={endpoint}
+            onChange={e => setEndpoint(e.target.value)}
+            className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs"
+          />
+          <input
+            type="password"
+            placeholder="Token de acesso (opcional)"
+            value={token}
+            onChange={e => setToken(e.target.value)}
+            className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs"
+          />
+          <button
+            type="submit"
+            disabled={!isValidEndpoint(endpoint.trim())}
+            className="w-full py-2.5 bg-sky-600 disabled:opacity-40 text-white rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold shadow-lg"
+          >
+            <Cloud size={12} />
+            Conectar
+          </button>
+        </form>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Sincronização" icon={<Cloud size={16} className="text-sky-500" />} className="p-5">
+      <div className="mt-1 space-y-2.5">
+        <div className="p-2.5 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-800">
+          <p className="text-[9px] font-bold text-slate-400 uppercase">Servidor</p>
+          <p className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">{config.endpoint}</p>
+        </div>
+
+        {status === 'error' && error ? (
+          <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+            <AlertCircle size={14} className="shrink-0" />
+            {error}
+          </div>
+        ) : lastSyncedAt && (
+          <div className="text-[10px] text-emerald-600 font-bold bg-emerald-50 dark:bg-emerald-950/20 p-2.5 rounded-xl flex items-center gap-2">
+            <CheckCircle2 size={14} className="shrink-0" />
+            Sincronizado em {new Date(lastSyncedAt).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onSyncNow}
+            disabled={status === 'syncing'}
+            className="flex-1 py-2.5 bg-sky-600 disabled:opacity-60 text-white rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold shadow-lg"
+          >
+            <RefreshCw size={12} className={status === 'syncing' ? 'animate-spin' : ''} />
+            {status === 'syncing' ? 'Sincronizando...' : 'Sincronizar agora'}
+          </button>
+          <button onClick={handleDisconnect} className="px-3 text-slate-400 text-[10px] font-bold">Desconectar</button>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { Zap, Edit2, Plus, Trash2, TrendingUp, TrendingDown } from './Icons';
+import { CatalogItem, EntryTemplate, TransactionType } from '../types';
+import { formatCurrency } from '../utils';
+import { getCatalogChips } from '../services/catalog';
+import { sortTemplatesByUsage } from '../services/templates';
+import { v4 as uuidv4 } from 'uuid';
+
+interface TemplatesCardProps {
+  templates: EntryTemplate[];
+  catalog: CatalogItem[];
+  onSaveTemplate: (template: EntryTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+}
+
+export const TemplatesCard: React.FC<TemplatesCardProps> = ({ templates, catalog, onSaveTemplate, onDeleteTemplate }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<EntryTemplate | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<TransactionType>('expense');
+  const [amount, setAmount] = useState('');
+  const [category, setCategory] = useState('');
+  const [platform, setPlatform] = useState('');
+
+  const sorted = sortTemplatesByUsage(templates);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingTemplate(null);
+    setName('');
+    setType('expense');
+    setAmount('');
+    setCategory('');
+    setPlatform('');
+  };
+
+  const handleEdit = (template: EntryTemplate) => {
+    setEditingTemplate(template);
+    setName(template.name);
+    setType(template.type);
+    setAmount(template.amount ? template.amount.toString() : '');
+    setCategory(template.category || '');
+    setPlatform(template.platform || '');
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const parsedAmount = parseFloat(amount);
+    onSaveTemplate({
+      ...(editingTemplate || { id: uuidv4(), usageCount: 0 }),
+      name: trimmed,
+      type,
+      amount: parsedAmount > 0 ? parsedAmount : undefined,
+      category: type === 'expense' && category ? category : undefined,
+      platform: type === 'income' && platform ? platform : undefined
+    });
+    resetForm();
+  };
+
+  const selected = type === 'income' ? platform : category;
+  const chips = type === 'income' ? getCatalogChips(catalog, 'platform', platform) : getCatalogChips(catalog, 'category', category);
+
+  return (
+    <Card title="Atalhos de Lançamento" icon={<Zap size={16} className="text-amber-500" />} className="p-5">
+      <div className="mt-1 space-y-2.5">
+        <p className="text-[10px] font-bold text-slate-400">
+          Aparecem no Início, dos mais usados para os menos. Com valor, um toque já lança; sem valor, abre o formulário preenchido.
+        </p>
+
+        {sorted.map(template => (
+          <div key={template.id} className="flex items-center justify-between p-2.5 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-800">
+            <div className="flex items-center gap-2.5 min-w-0">
+              <div className={`w-7 h-7 rounded-lg flex items-center justify-center shrink-0 ${template.type === 'income' ? 'bg-emerald-50 dark:bg-emerald-950/20 text-emerald-600' : 'bg-rose-50 dark:bg-rose-950/20 text-rose-600'}`}>
+                {template.type === 'income' ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+              </div>
+              <div className="min-w-0">
+                <p className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">
+                  {template.name}{template.amount ? ` · ${formatCurrency(template.amount)}` : ''}
+                </p>
+                <p className="text-[9px] font-bold text-slate-400 truncate">
+                  {[template.category || template.platform, `usado ${template.usageCount} ${template.usageCount === 1 ? 'vez' : 'vezes'}`].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center shrink-0">
+              <button onClick={() => handleEdit(template)} className="p-1.5 text-slate-300 hover:text-amber-500 transition-colors">
+                <Edit2 size={14} />
+              </button>
+              <button onClick={() => onDeleteTemplate(template.id)} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="mt-3 p-3.5 border border-dashed border-slate-200 dark:border-slate-800 rounded-2xl space-y-3 animate-in slide-in-from-top-2">
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase">
+              {editingTemplate ? 'Editar Atalho' : 'Novo Atalho'}
+            </h4>
+            <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+              <button type="button" onClick={() => setType('income')} className={`flex-1 py-2 rounded-lg text-[10px] font-bold transition-all ${type === 'income' ? 'bg-white dark:bg-slate-900 text-emerald-600 shadow-sm' : 'text-slate-400'}`}>Ganho</button>
+              <button type="button" onClick={() => setType('expense')} className={`flex-1 py-2 rounded-lg text-[10px] font-bold transition-all ${type === 'expense' ? 'bg-white dark:bg-slate-900 text-rose-600 shadow-sm' : 'text-slate-400'}`}>Gasto</button>
+            </div>
+            <input
+              autoFocus
+              type="text"
+              placeholder={type === 'income' ? 'Ex.: Corrida iFood' : 'Ex.: Gasolina'}
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs"
+            />
+            <input
+              type="number"
+              step="0.01"
+              placeholder="Valor (opcional)"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800 focus:outline-none dark:text-white text-xs"
+            />
+            <div className="flex flex-wrap gap-1.5">
+              {chips.map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => type === 'income' ? setPlatform(selected === tag ? '' : tag) : setCategory(selected === tag ? '' : tag)}
+                  className={`text-[10px] font-bold px-2.5 py-1.5 rounded-lg border transition-all ${selected === tag ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900 border-slate-900' : 'bg-slate-100 text-slate-400 dark:bg-slate-800 dark:text-slate-500'}`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button type="submit" className="flex-1 bg-amber-500 text-white py-2.5 rounded-xl font-bold text-[10px] shadow-lg">
+                {editingTemplate ? 'Salvar' : 'Adicionar'}
+              </button>
+              <button type="button" onClick={resetForm} className="px-3 text-slate-400 text-[10px] font-bold">Cancelar</button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => { resetForm(); setShowForm(true); }}
+            className="w-full py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold transition-all"
+          >
+            <Plus size={12} />
+            Adicionar Atalho
+          </button>
+        )}
+      </div>
+    </Card>
+  );
+};
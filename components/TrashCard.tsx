@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { Trash2, X, RotateCcw } from './Icons';
+import { TrashItem } from '../types';
+import { formatCurrency, formatDate } from '../utils';
+import { getTrashDaysLeft } from '../services/trash';
+import { TRASH_RETENTION_DAYS } from '../constants';
+
+interface TrashCardProps {
+  trash: TrashItem[];
+  onRestore: (item: TrashItem) => void;
+  onPurge: (id: string) => void;
+  onEmpty: () => void;
+}
+
+const getItemInfo = (item: TrashItem) => {
+  switch (item.kind) {
+    case 'transaction':
+      return {
+        title: item.record.description || (item.record.type === 'income' ? 'Ganho' : 'Gasto'),
+        subtitle: `Lançamento de ${formatDate(item.record.date)}`,
+        amount: item.record.amount,
+        isIncome: item.record.type === 'income'
+      };
+    case 'fixedExpense':
+      return {
+        title: item.record.title,
+        subtitle: 'Fixa • todos os meses',
+        amount: item.record.amount,
+        isIncome: item.record.type === 'income'
+      };
+    case 'occurrence':
+      return {
+        title: item.record.title,
+        subtitle: `Fixa • só ${formatDate(`${item.occurrenceDate}T12:00:00`)}`,
+        amount: item.record.amount,
+        isIncome: item.record.type === 'income'
+      };
+  }
+};
+
+export const TrashCard: React.FC<TrashCardProps> = ({ trash, onRestore, onPurge, onEmpty }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Mais recentes primeiro
+  const items = [...trash].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+  const handleEmpty = () => {
+    onEmpty();
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <Card title="Lixeira" icon={<Trash2 size={16} className="text-rose-500" />} className="p-5">
+        <div className="mt-1 space-y-2.5">
+          <p className="text-[10px] font-bold text-slate-400">
+            Itens excluídos ficam aqui por {TRASH_RETENTION_DAYS} dias antes de serem apagados de vez.
+          </p>
+          <button
+            onClick={() => setIsOpen(true)}
+            disabled={trash.length === 0}
+            className="w-full py-2.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 disabled:opacity-40 rounded-xl flex items-center justify-center gap-2 text-[10px] font-bold"
+          >
+            <Trash2 size={12} />
+            {trash.length === 0 ? 'Lixeira vazia' : trash.length === 1 ? 'Ver 1 item' : `Ver ${trash.length} itens`}
+          </button>
+        </div>
+      </Card>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-[120] flex items-end justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setIsOpen(false)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-6 shadow-2xl animate-in slide-in-from-bottom border border-slate-200 dark:border-slate-800 flex flex-col max-h-[85vh]">
+            <div className="flex justify-between items-center mb-4 shrink-0">
+              <div>
+                <h3 className="text-lg font-black text-slate-900 dark:text-white leading-tight">Lixeira</h3>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-0.5">
+                  {trash.length} {trash.length === 1 ? 'item' : 'itens'}
+                </p>
+              </div>
+              <button onClick={() => setIsOpen(false)} className="bg-slate-100 dark:bg-slate-800 p-2 rounded-full text-slate-500"><X size={20} /></button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto pr-1 no-scrollbar space-y-2 pb-4">
+              {items.length === 0 && (
+                <p className="text-center text-[11px] font-bold text-slate-400 py-8">Nada por aqui.</p>
+              )}
+              {items.map(item => {
+                const info = getItemInfo(item);
+                const daysLeft = getTrashDaysLeft(item);
+                return (
+                  <div key={item.id} className="p-3 rounded-2xl border border-slate-100 dark:border-slate-800 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-xs font-bold text-slate-900 dark:text-slate-100 truncate">{info.title}</p>
+                      <p className="text-[9px] font-bold text-slate-400 uppercase">
+                        {info.subtitle} • {daysLeft === 1 ? 'apaga em 1 dia' : `apaga em ${daysLeft} dias`}
+                      </p>
+                      <p className={`text-[11px] font-black ${info.isIncome ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {info.isIncome ? '+' : '-'}{formatCurrency(info.amount)}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <button onClick={() => onRestore(item)} title="Restaurar" className="p-2 rounded-xl bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600">
+                        <RotateCcw size={14} />
+                      </button>
+                      <button onClick={() => onPurge(item.id)} title="Excluir de vez" className="p-2 rounded-xl bg-rose-50 dark:bg-rose-900/20 text-rose-600">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {items.length > 0 && (
+              <div className="pt-4 border-t border-slate-100 dark:border-slate-800 shrink-0">
+                <button
+                  onClick={handleEmpty}
+                  className="w-full py-4 rounded-2xl font-black text-sm text-white bg-rose-600 shadow-xl active:scale-95 transition-all"
+                >
+                  Esvaziar lixeira
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
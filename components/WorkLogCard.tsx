@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from './ui/Card';
+import { WorkMetrics } from './ui/WorkMetrics';
+import { Bike, Edit2, X, AlertCircle } from './Icons';
+import { Transaction, WorkLog } from '../types';
+import { getISODate } from '../utils';
+import { summarizeWork, parseDuration, formatDuration, WorkSummary } from '../services/workLog';
+
+interface WorkLogCardProps {
+  workLogs: WorkLog[];
+  transactions: Transaction[];
+  cycleStart: Date;
+  cycleEnd: Date;
+  onSaveWorkLog: (log: WorkLog) => void;
+}
+
+type Scope = 'today' | 'cycle';
+
+const describeSummary = (summary: WorkSummary) => [
+  summary.deliveries > 0 && `${summary.deliveries} ${summary.deliveries === 1 ? 'entrega' : 'entregas'}`,
+  summary.km > 0 && `${summary.km.toLocaleString('pt-BR')} km`,
+  summary.onlineMinutes > 0 && `${formatDuration(summary.onlineMinutes)} online`,
+  summary.ridingShare !== null && `${Math.round(summary.ridingShare * 100)}% rodando`
+].filter(Boolean).join(' · ');
+
+export const WorkLogCard: React.FC<WorkLogCardProps> = ({ workLogs, transactions, cycleStart, cycleEnd, onSaveWorkLog }) => {
+  const todayKey = getISODate(new Date());
+  const [scope, setScope] = useState<Scope>('today');
+  const [showForm, setShowForm] = useState(false);
+  const [date, setDate] = useState(todayKey);
+  const [deliveries, setDeliveries] = useState('');
+  const [km, setKm] = useState('');
+  const [online, setOnline] = useState('');
+  const [riding, setRiding] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const summary = useMemo(() => scope === 'today'
+    ? summarizeWork(workLogs, transactions, todayKey, todayKey)
+    : summarizeWork(workLogs, transactions, getISODate(cycleStart), getISODate(cycleEnd)),
+    [scope, workLogs, transactions, todayKey, cycleStart, cycleEnd]);
+
+  const loadDay = (day: string) => {
+    const log = workLogs.find(l => l.id === day);
+    setDate(day);
+    setDeliveries(log?.deliveries ? log.deliveries.toString() : '');
+    setKm(log?.km ? log.km.toString() : '');
+    setOnline(log?.onlineMinutes ? formatDuration(log.onlineMinutes) : '');
+    setRiding(log?.ridingMinutes ? formatDuration(log.ridingMinutes) : '');
+    setError(null);
+  };
+
+  const openForm = () => {
+    loadDay(todayKey);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date) return;
+
+    const onlineMinutes = parseDuration(online);
+    const ridingMinutes = parseDuration(riding);
+    if ((online.trim() && onlineMinutes === undefined) || (riding.trim() && ridingMinutes === undefined)) {
+      setError('Use horas como 6:30 ou 6,5.');
+      return;
+    }
+    if (onlineMinutes && ridingMinutes && ridingMinutes > onlineMinutes) {
+      setError('O tempo rodando não pode passar do tempo online.');
+      return;
+    }
+
+    const existing = workLogs.find(l => l.id === date);
+    onSaveWorkLog({
+      ...existing,
+      id: date,
+      deliveries: parseInt(deliveries, 10) || undefined,
+      km: parseFloat(km.replace(',', '.')) || undefined,
+      onlineMinutes: onlineMinutes || undefined,
+      ridingMinutes: ridingMinutes || undefined
+    });
+    setShowForm(false);
+  };
+
+  const description = describeSummary(summary);
+
+  return (
+    <>
+      <Card title="Diário do Corre" icon={<Bike size={14} className="text-amber-500" />} className="mx-1 p-4">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+              {(['today', 'cycle'] as Scope[]).map(s => (
+                <button
+                  key={s}
+                  onClick={() => setScope(s)}
+                  className={`px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${scope === s ? 'bg-white dark:bg-slate-900 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+                >
+                  {s === 'today' ? 'Hoje' : 'Ciclo'}
+                </button>
+              ))}
+            </div>
+            <button onClick={openForm} className="px-3 py-2 rounded-xl bg-amber-500 text-white text-[10px] font-black flex items-center gap-1.5 active:scale-95 transition-all">
+              <Edit2 size={12} />
+              Anotar dia
+            </button>
+          </div>
+
+          <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400">
+            {description || (scope === 'today' ? 'Nada anotado hoje. Anote entregas, km e horas para ver quanto o dia rendeu de verdade.' : 'Nenhum dia anotado neste ciclo.')}
+            {scope === 'cycle' && summary.days > 0 && ` · ${summary.days} ${summary.days === 1 ? 'dia anotado' : 'dias anotados'}`}
+          </p>
+
+          <WorkMetrics summary={summary} />
+        </div>
+      </Card>
+
+      {showForm && (
+        <div className="fixed inset-0 z-[60] flex items-end justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setShowForm(false)} />
+          <div className="relative bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-5 shadow-2xl animate-in slide-in-from-bottom border border-slate-200 dark:border-slate-800">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-black dark:text-white leading-none">Diário do Corre</h3>
+              <button onClick={() => setShowForm(false)} className="bg-slate-100 dark:bg-slate-800 p-2 rounded-full text-slate-500"><X size={20} /></button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input type="date" required value={date} onChange={e => loadDay(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-950 p-4 rounded-2xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1">Entregas</span>
+                  <input type="number" min="0" inputMode="numeric" value={deliveries} onChange={e => setDeliveries(e.target.value)} placeholder="0" className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1">Km rodados</span>
+                  <input type="text" inputMode="decimal" value={km} onChange={e => setKm(e.target.value)} placeholder="0" className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1">Horas online</span>
+                  <input type="text" value={online} onChange={e => { setOnline(e.target.value); setError(null); }} placeholder="6:30" className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest pl-1">Horas rodando</span>
+                  <input type="text" value={riding} onChange={e => { setRiding(e.target.value); setError(null); }} placeholder="4:00" className="w-full bg-slate-50 dark:bg-slate-950 p-3 rounded-xl font-bold focus:outline-none dark:text-white border border-slate-200 dark:border-slate-800" />
+                </label>
+              </div>
+              <p className="text-[9px] font-bold text-slate-400 px-1">
+                Os ganhos lançados no mesmo dia entram nas contas de R$/hora, R$/km e R$/entrega. Deixe tudo em branco para apagar o dia.
+              </p>
+              {error && (
+                <div className="text-[10px] text-rose-500 font-bold bg-rose-50 dark:bg-rose-950/20 p-2.5 rounded-xl flex items-center gap-2">
+                  <AlertCircle size={14} className="shrink-0" />
+                  {error}
+                </div>
+              )}
+              <button type="submit" className="w-full py-4 rounded-2xl font-black text-sm text-white bg-amber-500 shadow-xl active:scale-95 transition-all">Salvar Dia</button>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Banknote, Landmark, Wallet } from '../Icons';
+import { AccountKind } from '../../types';
+
+const ACCOUNT_ICONS: Record<AccountKind, React.ElementType> = {
+  cash: Banknote,
+  bank: Landmark,
+  wallet: Wallet
+};
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+  cash: 'Dinheiro',
+  bank: 'Banco',
+  wallet: 'Carteira de app'
+};
+
+interface AccountIconProps {
+  kind: AccountKind;
+  size?: number;
+  className?: string;
+}
+
+export const AccountIcon: React.FC<AccountIconProps> = ({ kind, size = 16, className }) => {
+  const Icon = ACCOUNT_ICONS[kind] || Wallet;
+  return <Icon size={size} className={className} />;
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Fuel, Wrench, Utensils, Home, Receipt, ShoppingBag, Tag, Smartphone, Bike, Car, Coffee, Heart, Package, Shield, Store, Wifi, Zap, Wallet } from '../Icons';
+
+// Ícones que podem ser escolhidos para categorias e apps; a chave é o que fica gravado no item
+export const CATALOG_ICONS: Record<string, React.ElementType> = {
+  'fuel': Fuel,
+  'wrench': Wrench,
+  'utensils': Utensils,
+  'home': Home,
+  'receipt': Receipt,
+  'shopping-bag': ShoppingBag,
+  'tag': Tag,
+  'smartphone': Smartphone,
+  'bike': Bike,
+  'car': Car,
+  'coffee': Coffee,
+  'heart': Heart,
+  'package': Package,
+  'shield': Shield,
+  'store': Store,
+  'wifi': Wifi,
+  'zap': Zap,
+  'wallet': Wallet
+};
+
+interface CatalogIconProps {
+  icon: string;
+  size?: number;
+  className?: string;
+}
+
+export const CatalogIcon: React.FC<CatalogIconProps> = ({ icon, size = 16, className }) => {
+  const Icon = CATALOG_ICONS[icon] || Tag;
+  return <Icon size={size} className={className} />;
+};
@@ -0,0 +1,40 @@
+import React, { useEffect } from 'react';
+import { X } from '../Icons';
+
+interface SnackbarProps {
+  message: string;
+  actionLabel?: string;
+  actionIcon?: React.ReactNode;
+  onAction?: () => void;
+  onClose: () => void;
+  duration?: number;
+}
+
+export const Snackbar: React.FC<SnackbarProps> = ({ message, actionLabel, actionIcon, onAction, onClose, duration = 6000 }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onClose, duration);
+    return () => window.clearTimeout(timer);
+  }, [duration, onClose]);
+
+  return (
+    <div className="fixed bottom-28 left-0 right-0 z-[130] flex justify-center px-4 pointer-events-none">
+      <div className="pointer-events-auto w-full max-w-sm bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-2xl shadow-2xl p-2 pl-4 flex items-center justify-between gap-3 animate-in slide-in-from-bottom">
+        <span className="text-xs font-bold truncate">{message}</span>
+        <div className="flex items-center gap-1 shrink-0">
+          {actionLabel && onAction && (
+            <button 
+              onClick={onAction}
+              className="px-3 py-2 rounded-xl bg-amber-500 text-white text-[11px] font-black flex items-center gap-1.5 active:scale-95 transition-all"
+            >
+              {actionIcon}
+              {actionLabel}
+            </button>
+          )}
+          <button onClick={onClose} className="p-2 text-white/50 dark:text-slate-400">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
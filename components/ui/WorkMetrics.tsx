@@ -0,0 +1,30 @@
+import React from 'react';
+import { formatCurrency } from '../../utils';
+import { WorkSummary } from '../../services/workLog';
+
+interface WorkMetricsProps {
+  summary: WorkSummary;
+  className?: string;
+}
+
+// R$/hora, R$/km e R$/entrega lado a lado; mostra "—" quando a medida não foi anotada
+export const WorkMetrics: React.FC<WorkMetricsProps> = ({ summary, className = '' }) => {
+  const metrics = [
+    { label: 'Por hora', value: summary.perHour },
+    { label: 'Por km', value: summary.perKm },
+    { label: 'Por entrega', value: summary.perDelivery }
+  ];
+
+  return (
+    <div className={`grid grid-cols-3 gap-2 ${className}`}>
+      {metrics.map(metric => (
+        <div key={metric.label} className="p-2.5 rounded-xl bg-slate-50 dark:bg-slate-950 border border-slate-100 dark:border-slate-800 text-center">
+          <p className="text-sm font-black text-slate-900 dark:text-white leading-none mb-1">
+            {metric.value === null ? '—' : formatCurrency(metric.value)}
+          </p>
+          <p className="text-[8px] font-black text-slate-400 uppercase tracking-tighter">{metric.label}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
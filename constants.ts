@@ -0,0 +1,94 @@
+import { Account, AppData, CatalogItem, CatalogKind, GoalSettings } from './types';
+
+export const DEFAULT_GOAL_SETTINGS: GoalSettings = {
+  daysOff: [],
+  startDayOfMonth: 1,
+  dailySavingTarget: 0,
+  savingsDates: [],
+  savingsAdjustments: {},
+  savingsWithdrawals: {}
+};
+
+export const createEmptyAppData = (): AppData => ({
+  transactions: [],
+  fixedExpenses: [],
+  creditCards: [],
+  trash: [],
+  catalog: createDefaultCatalog(),
+  templates: [],
+  workLogs: [],
+  shifts: [],
+  maintenancePlans: [],
+  accounts: createDefaultAccounts(),
+  transfers: [],
+  tombstones: [],
+  goalSettings: DEFAULT_GOAL_SETTINGS
+});
+
+// Dias que um item fica na lixeira antes de ser apagado de vez
+export const TRASH_RETENTION_DAYS = 30;
+
+// Catálogo inicial: apps para ganhos e categorias para gastos. As migrações usam estes nomes
+// para reconhecer os chips gravados por versões antigas, então eles não devem mudar
+export const DELIVERY_APPS = ['iFood', '99', 'Rappi', 'Lalamove', 'Uber', 'Loggi', 'Borborema', 'Particular'];
+export const EXPENSE_CATEGORIES = ['Combustível', 'Manutenção', 'Alimentação', 'Aluguel', 'Financiamento', 'Gastos na Rua', 'Outros'];
+export const FUEL_CATEGORY = 'Combustível';
+export const MAINTENANCE_CATEGORY = 'Manutenção';
+export const OTHER_CATEGORY = 'Outros';
+
+const DEFAULT_CATEGORY_STYLES: Record<string, { color: string; icon: string }> = {
+  'Combustível': { color: '#f59e0b', icon: 'fuel' },
+  'Manutenção': { color: '#64748b', icon: 'wrench' },
+  'Alimentação': { color: '#f97316', icon: 'utensils' },
+  'Aluguel': { color: '#3b82f6', icon: 'home' },
+  'Financiamento': { color: '#8b5cf6', icon: 'receipt' },
+  'Gastos na Rua': { color: '#ec4899', icon: 'shopping-bag' },
+  'Outros': { color: '#94a3b8', icon: 'tag' }
+};
+
+// Cores oferecidas ao criar ou editar um item do catálogo
+export const CATALOG_COLORS = ['#f59e0b', '#ef4444', '#ec4899', '#8b5cf6', '#3b82f6', '#06b6d4', '#10b981', '#84cc16', '#f97316', '#64748b'];
+
+// Os itens iniciais têm id fixo, para que dois aparelhos sincronizados não dupliquem o catálogo
+export const getDefaultCatalogId = (kind: CatalogKind, name: string) => `${kind}:${name}`;
+
+// O card de combustível segue este item mesmo que ele seja renomeado
+export const FUEL_CATEGORY_ID = getDefaultCatalogId('category', FUEL_CATEGORY);
+// As contas criadas pelos planos de manutenção usam este item, também pelo id
+export const MAINTENANCE_CATEGORY_ID = getDefaultCatalogId('category', MAINTENANCE_CATEGORY);
+
+// Planos oferecidos de uma vez para quem ainda não cadastrou nenhum; valores médios de moto 150-160cc
+export const SUGGESTED_MAINTENANCE_PLANS = [
+  { name: 'Troca de óleo', intervalKm: 1000, estimatedCost: 45 },
+  { name: 'Kit relação', intervalKm: 15000, estimatedCost: 250 },
+  { name: 'Pneus', intervalKm: 12000, estimatedCost: 320 },
+  { name: 'Pastilhas de freio', intervalKm: 8000, estimatedCost: 60 },
+  { name: 'Revisão', intervalMonths: 6, estimatedCost: 150 }
+];
+
+export const createDefaultCatalog = (): CatalogItem[] => [
+  ...EXPENSE_CATEGORIES.map((name, order): CatalogItem => ({
+    id: getDefaultCatalogId('category', name),
+    kind: 'category',
+    name,
+    order,
+    ...DEFAULT_CATEGORY_STYLES[name]
+  })),
+  ...DELIVERY_APPS.map((name, order): CatalogItem => ({
+    id: getDefaultCatalogId('platform', name),
+    kind: 'platform',
+    name,
+    order,
+    color: CATALOG_COLORS[order % CATALOG_COLORS.length],
+    icon: 'smartphone'
+  }))
+];
+
+// Cores no gráfico de gastos para categorias fora do catálogo, como as das fixas antigas
+export const EXTRA_CATEGORY_COLORS = ['#14b8a6', '#ef4444', '#84cc16', '#06b6d4', '#a855f7', '#eab308'];
+
+// Contas iniciais, com id fixo pelo mesmo motivo do catálogo. As carteiras dos apps o usuário cria
+export const createDefaultAccounts = (): Account[] => [
+  { id: 'account:cash', name: 'Dinheiro', kind: 'cash', order: 0 },
+  { id: 'account:bank', name: 'Banco', kind: 'bank', order: 1 }
+];
@@ -0,0 +1,82 @@
+import { useState, useCallback } from 'react';
+
+interface HistoryEntry<T> {
+  state: T;
+  label: string;
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+}
+
+/**
+ * Estado com desfazer/refazer. Cada alteração feita por `commit` guarda o estado anterior
+ * junto com uma descrição, e a pilha é limitada a `limit` passos.
+ * `normalize` é aplicado a toda transição (commit, desfazer e refazer) antes de ela virar o estado atual.
+ */
+export const useHistory = <T,>(initial: T, limit = 50, normalize?: (prev: T, next: T) => T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const commit = useCallback((label: string, updater: (prev: T) => T) => {
+    setHistory(h => {
+      const next = updater(h.present);
+      if (next === h.present) return h;
+      return {
+        past: [...h.past, { state: h.present, label }].slice(-limit),
+        present: normalize ? normalize(h.present, next) : next,
+        future: []
+      };
+    });
+  }, [limit, normalize]);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      const previous = h.past[h.past.length - 1];
+      if (!previous) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: normalize ? normalize(h.present, previous.state) : previous.state,
+        future: [{ state: h.present, label: previous.label }, ...h.future]
+      };
+    });
+  }, [normalize]);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      const next = h.future[0];
+      if (!next) return h;
+      return {
+        past: [...h.past, { state: h.present, label: next.label }],
+        present: normalize ? normalize(h.present, next.state) : next.state,
+        future: h.future.slice(1)
+      };
+    });
+  }, [normalize]);
+
+  // Substitui o estado sem registrar no histórico (ex.: ao carregar os dados salvos)
+  const reset = useCallback((state: T) => {
+    setHistory({ past: [], present: state, future: [] });
+  }, []);
+
+  // Aplica uma alteração que não veio do usuário (ex.: dados de outro aparelho) e descarta o histórico,
+  // já que desfazer voltaria por cima do que chegou
+  const replace = useCallback((updater: (prev: T) => T) => {
+    setHistory(h => {
+      const next = updater(h.present);
+      return next === h.present ? h : { past: [], present: next, future: [] };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    commit,
+    undo,
+    redo,
+    reset,
+    replace,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[0]?.label
+  };
+};
@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppData } from '../types';
+import {
+  SyncConfig, SyncError, SyncState, collectLocalChanges, exchangeChanges, mergeRemoteChanges,
+  loadSyncConfig, loadSyncState, saveSyncConfig, saveSyncState
+} from '../services/sync';
+
+export type SyncStatus = 'idle' | 'syncing' | 'error';
+
+interface UseSyncOptions {
+  storagePrefix: string;
+  data: AppData;
+  isHydrated: boolean;
+  // Recebe as alterações vindas do servidor sem passar pelo histórico
+  applyRemote: (updater: (prev: AppData) => AppData) => void;
+}
+
+/**
+ * Sincronização opcional com um servidor próprio. Roda ao abrir o perfil, quando a conexão volta
+ * e quando o usuário pede; sem servidor configurado não faz nada.
+ */
+export const useSync = ({ storagePrefix, data, isHydrated, applyRemote }: UseSyncOptions) => {
+  const [config, setConfig] = useState<SyncConfig | null>(() => loadSyncConfig(storagePrefix));
+  const [syncState, setSyncState] = useState<SyncState>(() => loadSyncState(storagePrefix));
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  // A troca com o servidor é assíncrona; lê sempre os dados mais recentes
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const isSyncingRef = useRef(false);
+  const prefixRef = useRef(storagePrefix);
+
+  useEffect(() => {
+    prefixRef.current = storagePrefix;
+    setConfig(loadSyncConfig(storagePrefix));
+    setSyncState(loadSyncState(storagePrefix));
+    setStatus('idle');
+    setError(null);
+  }, [storagePrefix]);
+
+  const syncNow = useCallback(async () => {
+    if (!config || !isHydrated || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    setStatus('syncing');
+    setError(null);
+
+    // Capturado antes de coletar, para que nada alterado durante a troca fique de fora do próximo envio
+    const startedAt = new Date().toISOString();
+    try {
+      const local = collectLocalChanges(dataRef.current, syncState.lastPushedAt);
+      const remote = await exchangeChanges(config, syncState.cursor, local);
+      // Trocou de perfil enquanto esperava o servidor
+      if (prefixRef.current !== storagePrefix) return;
+      applyRemote(prev => mergeRemoteChanges(prev, remote.changes));
+
+      const next: SyncState = { cursor: remote.cursor, lastPushedAt: startedAt, lastSyncedAt: new Date().toISOString() };
+      setSyncState(next);
+      saveSyncState(storagePrefix, next);
+      setStatus('idle');
+    } catch (e) {
+      setError(e instanceof SyncError ? e.message : 'Não foi possível sincronizar.');
+      setStatus('error');
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [config, isHydrated, syncState, storagePrefix, applyRemote]);
+
+  const updateConfig = useCallback((next: SyncConfig | null) => {
+    saveSyncConfig(storagePrefix, next);
+    setConfig(next);
+    setSyncState({});
+    setError(null);
+    setStatus('idle');
+  }, [storagePrefix]);
+
+  // Sincroniza ao abrir e sempre que o servidor muda
+  useEffect(() => {
+    if (config && isHydrated) syncNow();
+  }, [config, isHydrated]);
+
+  useEffect(() => {
+    window.addEventListener('online', syncNow);
+    return () => window.removeEventListener('online', syncNow);
+  }, [syncNow]);
+
+  return { config, updateConfig, status, error, lastSyncedAt: syncState.lastSyncedAt, syncNow };
+};
@@ -0,0 +1,70 @@
+// Servidor de sincronização de exemplo, só em memória, para testar o app localmente.
+// Uso: npm run mock-sync [porta]  →  no app, Ajustes > Sincronização > http://localhost:8787
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2]) || 8787;
+
+// Cada chave guarda a última versão conhecida de um registro (ou sua lápide) e a sequência em que chegou
+const entries = new Map();
+let goalSettings = null;
+let sequence = 0;
+
+const timestampOf = (entry) => entry.kind === 'tombstone' ? entry.payload.deletedAt : entry.payload.value.updatedAt || '';
+
+const store = (key, entry) => {
+  const current = entries.get(key);
+  if (current && timestampOf(current) >= timestampOf(entry)) return;
+  entries.set(key, { ...entry, seq: ++sequence });
+};
+
+const applyChanges = (changes) => {
+  changes.records.forEach(record => store(`${record.collection}:${record.value.id}`, { kind: 'record', payload: record }));
+  changes.tombstones.forEach(tombstone => store(tombstone.id, { kind: 'tombstone', payload: tombstone }));
+  if (changes.goalSettings && (!goalSettings || (goalSettings.value.updatedAt || '') < (changes.goalSettings.updatedAt || ''))) {
+    goalSettings = { value: changes.goalSettings, seq: ++sequence };
+  }
+};
+
+const changesSince = (since) => {
+  const newer = Array.from(entries.values()).filter(entry => entry.seq > since);
+  return {
+    records: newer.filter(entry => entry.kind === 'record').map(entry => entry.payload),
+    tombstones: newer.filter(entry => entry.kind === 'tombstone').map(entry => entry.payload),
+    goalSettings: goalSettings && goalSettings.seq > since ? goalSettings.value : undefined
+  };
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method !== 'POST' || !req.url?.endsWith('/sync')) return send(res, 404, { error: 'not found' });
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return send(res, 400, { error: 'invalid json' });
+    }
+    if (!body?.changes || !Array.isArray(body.changes.records) || !Array.isArray(body.changes.tombstones)) {
+      return send(res, 400, { error: 'invalid changes' });
+    }
+
+    const since = Number(body.since) || 0;
+    applyChanges(body.changes);
+    send(res, 200, { cursor: String(sequence), changes: changesSince(since) });
+  });
+}).listen(port, () => {
+  console.log(`Servidor de sincronização em http://localhost:${port}`);
+});
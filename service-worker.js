@@ -0,0 +1,82 @@
+// Service worker do app. O build (vite.config.ts) troca os marcadores abaixo pela versão e pela lista de arquivos gerados.
+const VERSION = '__SW_VERSION__';
+const PRECACHE_URLS = __SW_PRECACHE__;
+
+const PRECACHE = `meu-corre-precache-${VERSION}`;
+const RUNTIME = 'meu-corre-runtime';
+
+// Dependências carregadas de CDNs pelo index.html; sem elas o app abre sem estilo
+const RUNTIME_PRECACHE_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;600;700&display=swap'
+];
+const RUNTIME_ORIGINS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+  'https://aistudiocdn.com',
+  'https://esm.sh'
+];
+
+self.addEventListener('install', event => {
+  event.waitUntil(Promise.all([
+    caches.open(PRECACHE).then(cache => cache.addAll(PRECACHE_URLS)),
+    // Na primeira visita a página ainda não passa pelo service worker, então os CDNs são guardados aqui.
+    // Respostas opacas não entram em addAll; falhas não impedem a instalação
+    caches.open(RUNTIME).then(cache => Promise.all(RUNTIME_PRECACHE_URLS.map(url =>
+      fetch(url, { mode: 'no-cors' }).then(response => cache.put(url, response)).catch(() => undefined)
+    )))
+  ]));
+  // Não chama skipWaiting: a nova versão espera o usuário aceitar o aviso no app
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('meu-corre-precache-') && key !== PRECACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Responde com o que estiver guardado e atualiza em segundo plano; sem nada guardado, espera a rede
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Navegações caem no index.html guardado (SPA)
+    if (request.mode === 'navigate') {
+      event.respondWith(
+        fetch(request).catch(() => caches.match('/index.html', { cacheName: PRECACHE }))
+      );
+      return;
+    }
+    event.respondWith(
+      caches.match(request, { cacheName: PRECACHE }).then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (RUNTIME_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
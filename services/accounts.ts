@@ -0,0 +1,84 @@
+import { Account, CatalogItem, Transaction, TransactionType, Transfer } from '../types';
+import { findCatalogItem } from './catalog';
+
+/** Contas na ordem escolhida. As arquivadas ficam de fora, a não ser que sejam pedidas. */
+export const getAccounts = (accounts: Account[], includeArchived = false) =>
+  accounts
+    .filter(account => includeArchived || !account.archived)
+    .sort((a, b) => a.order - b.order);
+
+export const getNextAccountOrder = (accounts: Account[]) =>
+  accounts.reduce((max, account) => Math.max(max, account.order + 1), 0);
+
+/** Carteira ativa que recebe os ganhos do app, se houver uma ligada a ele. */
+export const getPlatformWallet = (accounts: Account[], catalog: CatalogItem[], platform?: string) => {
+  const platformItem = findCatalogItem(catalog, 'platform', platform);
+  return platformItem ? getAccounts(accounts).find(a => a.platformId === platformItem.id) : undefined;
+};
+
+/**
+ * Conta sugerida para um lançamento novo: a carteira ligada ao app do ganho ou,
+ * sem ela, a conta usada no lançamento mais recente do mesmo tipo.
+ */
+export const suggestAccountId = (
+  accounts: Account[],
+  catalog: CatalogItem[],
+  transactions: Transaction[],
+  type: TransactionType,
+  platform?: string
+) => {
+  const active = getAccounts(accounts);
+  const wallet = type === 'income' ? getPlatformWallet(accounts, catalog, platform) : undefined;
+  if (wallet) return wallet.id;
+
+  const lastUsed = transactions
+    .filter(t => t.type === type && t.accountId && active.some(a => a.id === t.accountId))
+    .reduce<Transaction | null>((latest, t) => !latest || t.date > latest.date ? t : latest, null);
+  return lastUsed?.accountId || active[0]?.id;
+};
+
+export interface AccountBalance {
+  account: Account | null; // null junta os lançamentos sem conta e as fixas pagas
+  income: number;
+  expense: number;
+  transfers: number; // Entradas menos saídas por transferência
+  balance: number;
+}
+
+/**
+ * Saldo do período dividido por conta. A soma dos saldos é o saldo do período, já que
+ * as transferências só mudam o dinheiro de lugar. Fixas pagas não têm conta e saem do
+ * grupo "sem conta", como os lançamentos antigos.
+ */
+export const getAccountBalances = (
+  accounts: Account[],
+  transactions: Transaction[],
+  transfers: Transfer[],
+  paidFixedExpenses: number
+): AccountBalance[] => {
+  const rows = new Map<string, AccountBalance>();
+  const rowFor = (accountId?: string) => {
+    const account = accounts.find(a => a.id === accountId) || null;
+    const key = account?.id || '';
+    if (!rows.has(key)) rows.set(key, { account, income: 0, expense: 0, transfers: 0, balance: 0 });
+    return rows.get(key)!;
+  };
+
+  transactions.forEach(t => {
+    const row = rowFor(t.accountId);
+    if (t.type === 'income') row.income += t.amount;
+    else row.expense += t.amount;
+  });
+  transfers.forEach(transfer => {
+    rowFor(transfer.fromAccountId).transfers -= transfer.amount;
+    rowFor(transfer.toAccountId).transfers += transfer.amount;
+  });
+  if (paidFixedExpenses > 0) rowFor().expense += paidFixedExpenses;
+
+  // Contas ativas aparecem mesmo zeradas; arquivadas, só se tiveram movimento
+  getAccounts(accounts).forEach(account => rowFor(account.id));
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, balance: row.income - row.expense + row.transfers }))
+    .sort((a, b) => (a.account ? a.account.order : Infinity) - (b.account ? b.account.order : Infinity));
+};
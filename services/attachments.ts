@@ -0,0 +1,45 @@
+import { AppData, FixedExpense, Transaction } from '../types';
+
+// Uma foto de celular tem vários megabytes; reduzida assim continua legível e fica em torno de 200 KB
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.7;
+
+// Fotos sem registro só são apagadas depois disso, para não perder uma recém-anexada
+// cujo lançamento outra aba ainda não gravou
+export const ORPHAN_ATTACHMENT_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/** Reduz e converte a foto para JPEG, devolvendo uma data URL. */
+export const compressImage = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Não foi possível processar a foto.'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Esse arquivo não é uma imagem válida.'));
+    };
+    image.src = url;
+  });
+
+const transactionAttachments = (t: Transaction) => t.attachmentIds || [];
+const fixedExpenseAttachments = (e: FixedExpense) => Object.values(e.attachmentIds || {}).flat();
+
+/** Fotos usadas por algum registro, inclusive os que estão na lixeira. */
+export const getReferencedAttachmentIds = (data: AppData) => new Set([
+  ...data.transactions.flatMap(transactionAttachments),
+  ...data.fixedExpenses.flatMap(fixedExpenseAttachments),
+  ...data.trash.flatMap(item => item.kind === 'transaction' ? transactionAttachments(item.record) : fixedExpenseAttachments(item.record))
+]);
@@ -0,0 +1,116 @@
+import { AppData, Theme } from '../types';
+import { DEFAULT_GOAL_SETTINGS } from '../constants';
+import { SCHEMA_VERSION, migrateAppData } from './migrations';
+import { RECORD_COLLECTIONS } from './repository';
+
+const BACKUP_APP_ID = 'meu-corre';
+
+export interface Backup {
+  exportedAt: string;
+  theme?: Theme;
+  data: AppData;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const serializeBackup = (data: AppData, theme: Theme) => JSON.stringify({
+  app: BACKUP_APP_ID,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  theme,
+  data
+}, null, 2);
+
+export const getBackupFileName = (date = new Date()) =>
+  `meu-corre-backup-${date.toISOString().split('T')[0]}.json`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRecordList = (value: unknown) =>
+  Array.isArray(value) && value.every(item => typeof item === 'object' && item !== null && typeof item.id === 'string');
+
+/**
+ * Valida um arquivo de backup e o traz para o formato atual, aplicando as mesmas migrações do armazenamento local.
+ */
+export const parseBackup = (text: string): Backup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('O arquivo não é um backup válido.');
+  }
+
+  if (!isObject(parsed) || parsed.app !== BACKUP_APP_ID || !isObject(parsed.data)) {
+    throw new BackupError('Este arquivo não foi gerado pelo Meu Corre.');
+  }
+  const raw = parsed.data;
+
+  const version = parsed.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new BackupError('A versão do backup é inválida.');
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new BackupError('Este backup foi gerado por uma versão mais nova do aplicativo. Atualize o app para importá-lo.');
+  }
+
+  const invalidCollection = RECORD_COLLECTIONS.find(collection =>
+    raw[collection] !== undefined && !isRecordList(raw[collection])
+  );
+  if (invalidCollection) {
+    throw new BackupError('O backup está corrompido e não pode ser importado.');
+  }
+
+  // As migrações completam o que versões antigas não gravavam; depois delas, tudo precisa estar lá
+  const data = migrateAppData(raw, version);
+  if (RECORD_COLLECTIONS.some(collection => !isRecordList(data[collection])) || !isObject(data.goalSettings)) {
+    throw new BackupError('O backup está incompleto e não pode ser importado.');
+  }
+
+  return {
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    theme: parsed.theme === 'light' || parsed.theme === 'dark' ? parsed.theme : undefined,
+    data: { ...data, goalSettings: { ...DEFAULT_GOAL_SETTINGS, ...data.goalSettings } }
+  };
+};
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]) => {
+  const existingIds = new Set(current.map(item => item.id));
+  return [...current, ...incoming.filter(item => !existingIds.has(item.id))];
+};
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+/**
+ * Mescla um backup com os dados atuais. Registros com o mesmo `id` mantêm a versão do aparelho;
+ * nas configurações, as datas marcadas nos dois lados são somadas.
+ */
+export const mergeAppData = (current: AppData, incoming: AppData): AppData => ({
+  ...current,
+  transactions: mergeById(current.transactions, incoming.transactions),
+  fixedExpenses: mergeById(current.fixedExpenses, incoming.fixedExpenses),
+  creditCards: mergeById(current.creditCards, incoming.creditCards),
+  trash: mergeById(current.trash, incoming.trash),
+  catalog: mergeById(current.catalog, incoming.catalog),
+  templates: mergeById(current.templates, incoming.templates),
+  workLogs: mergeById(current.workLogs, incoming.workLogs),
+  shifts: mergeById(current.shifts, incoming.shifts),
+  maintenancePlans: mergeById(current.maintenancePlans, incoming.maintenancePlans),
+  accounts: mergeById(current.accounts, incoming.accounts),
+  transfers: mergeById(current.transfers, incoming.transfers),
+  tombstones: mergeById(current.tombstones, incoming.tombstones),
+  goalSettings: {
+    ...current.goalSettings,
+    daysOff: unique([...current.goalSettings.daysOff, ...incoming.goalSettings.daysOff]),
+    savingsDates: unique([...current.goalSettings.savingsDates, ...incoming.goalSettings.savingsDates]),
+    savingsAdjustments: { ...incoming.goalSettings.savingsAdjustments, ...current.goalSettings.savingsAdjustments },
+    savingsWithdrawals: { ...incoming.goalSettings.savingsWithdrawals, ...current.goalSettings.savingsWithdrawals }
+  }
+});
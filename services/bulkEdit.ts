@@ -0,0 +1,40 @@
+import { Transaction } from '../types';
+
+// Alteração aplicada de uma vez a vários lançamentos selecionados na linha do tempo
+export interface BulkEdit {
+  date?: string; // YYYY-MM-DD
+  category?: string;
+  platform?: string;
+  accountId?: string;
+}
+
+// Troca só o dia, mantendo o horário de lançamentos que foram gravados com ele
+const replaceDay = (date: string, day: string) => {
+  const timeIndex = date.indexOf('T');
+  return timeIndex === -1 ? day : day + date.slice(timeIndex);
+};
+
+/**
+ * Aplica a alteração aos lançamentos escolhidos. A categoria só vale para gastos (e desfaz a divisão
+ * em partes) e o app só para ganhos; a conta vale para os dois. O resto fica como está e mantém a referência.
+ */
+export const applyBulkEdit = (transactions: Transaction[], ids: string[], edit: BulkEdit) => {
+  const selected = new Set(ids);
+  return transactions.map(t => {
+    if (!selected.has(t.id)) return t;
+    let updated = t;
+    if (edit.date && t.date.split('T')[0] !== edit.date) {
+      updated = { ...updated, date: replaceDay(t.date, edit.date) };
+    }
+    if (edit.category && t.type === 'expense' && (t.category !== edit.category || t.splits)) {
+      updated = { ...updated, category: edit.category, splits: undefined };
+    }
+    if (edit.platform && t.type === 'income' && t.platform !== edit.platform) {
+      updated = { ...updated, platform: edit.platform };
+    }
+    if (edit.accountId && t.accountId !== edit.accountId) {
+      updated = { ...updated, accountId: edit.accountId };
+    }
+    return updated;
+  });
+};
@@ -0,0 +1,91 @@
+import { AppData, CatalogItem, CatalogKind, Transaction, FixedExpense, TrashItem, EntryTemplate } from '../types';
+
+/** Itens de um tipo na ordem escolhida pelo usuário. Os arquivados ficam de fora, a não ser que sejam pedidos. */
+export const getCatalogItems = (catalog: CatalogItem[], kind: CatalogKind, includeArchived = false) =>
+  catalog
+    .filter(item => item.kind === kind && (includeArchived || !item.archived))
+    .sort((a, b) => a.order - b.order);
+
+export const findCatalogItem = (catalog: CatalogItem[], kind: CatalogKind, name?: string) =>
+  name ? catalog.find(item => item.kind === kind && item.name === name) : undefined;
+
+/**
+ * Nomes oferecidos como chips no formulário. Um item arquivado continua aparecendo
+ * quando é o que já está escolhido no registro em edição.
+ */
+export const getCatalogChips = (catalog: CatalogItem[], kind: CatalogKind, selected?: string) => {
+  const names = getCatalogItems(catalog, kind).map(item => item.name);
+  return selected && !names.includes(selected) && findCatalogItem(catalog, kind, selected) ? [...names, selected] : names;
+};
+
+export const getNextCatalogOrder = (catalog: CatalogItem[], kind: CatalogKind) =>
+  catalog.filter(item => item.kind === kind).reduce((max, item) => Math.max(max, item.order + 1), 0);
+
+/** Troca a posição do item com o vizinho visível (`offset` -1 sobe, 1 desce). */
+export const moveCatalogItem = (catalog: CatalogItem[], id: string, offset: -1 | 1) => {
+  const item = catalog.find(i => i.id === id);
+  if (!item) return catalog;
+
+  const siblings = getCatalogItems(catalog, item.kind, item.archived);
+  const index = siblings.findIndex(i => i.id === id);
+  const neighbor = siblings[index + offset];
+  if (!neighbor) return catalog;
+
+  return catalog.map(i => {
+    if (i.id === item.id) return { ...i, order: neighbor.order };
+    if (i.id === neighbor.id) return { ...i, order: item.order };
+    return i;
+  });
+};
+
+const renameInTransaction = (t: Transaction, kind: CatalogKind, from: string, to: string): Transaction => {
+  if (kind === 'category' && t.splits?.some(split => split.category === from)) {
+    return { ...t, splits: t.splits.map(split => split.category === from ? { ...split, category: to } : split) };
+  }
+  if (kind === 'category' && t.category === from) return { ...t, category: to };
+  if (kind === 'platform' && t.platform === from) return { ...t, platform: to };
+  return t;
+};
+
+const renameInFixedExpense = (e: FixedExpense, kind: CatalogKind, from: string, to: string): FixedExpense =>
+  kind === 'category' && e.category === from ? { ...e, category: to } : e;
+
+const renameInTemplate = (t: EntryTemplate, kind: CatalogKind, from: string, to: string): EntryTemplate => {
+  if (kind === 'category' && t.category === from) return { ...t, category: to };
+  if (kind === 'platform' && t.platform === from) return { ...t, platform: to };
+  return t;
+};
+
+const renameInTrashItem = (item: TrashItem, kind: CatalogKind, from: string, to: string): TrashItem => {
+  if (item.kind === 'transaction') {
+    const record = renameInTransaction(item.record, kind, from, to);
+    return record === item.record ? item : { ...item, record };
+  }
+  const record = renameInFixedExpense(item.record, kind, from, to);
+  return record === item.record ? item : { ...item, record };
+};
+
+/**
+ * Salva um item do catálogo. Quando o nome muda, os lançamentos, fixas, atalhos e itens da lixeira
+ * que usavam o nome antigo passam a usar o novo. Só os registros afetados mudam de referência.
+ */
+export const saveCatalogItem = (data: AppData, item: CatalogItem): AppData => {
+  const previous = data.catalog.find(i => i.id === item.id);
+  const catalog = previous
+    ? data.catalog.map(i => i.id === item.id ? item : i)
+    : [...data.catalog, item];
+
+  if (!previous || previous.name === item.name) return { ...data, catalog };
+
+  const { kind } = item;
+  const from = previous.name;
+  const to = item.name;
+  return {
+    ...data,
+    catalog,
+    transactions: data.transactions.map(t => renameInTransaction(t, kind, from, to)),
+    fixedExpenses: data.fixedExpenses.map(e => renameInFixedExpense(e, kind, from, to)),
+    templates: data.templates.map(t => renameInTemplate(t, kind, from, to)),
+    trash: data.trash.map(i => renameInTrashItem(i, kind, from, to))
+  };
+};
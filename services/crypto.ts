@@ -0,0 +1,58 @@
+import { ValueCodec } from './repository';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/** Valor criptografado como fica gravado. */
+export interface EncryptedValue {
+  encrypted: 'AES-GCM';
+  iv: string;
+  data: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const isEncryptedValue = (value: unknown): value is EncryptedValue =>
+  typeof value === 'object' && value !== null && (value as EncryptedValue).encrypted === 'AES-GCM';
+
+export const createSalt = () => toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+/** Deriva a chave AES a partir do PIN. A derivação é lenta de propósito, para dificultar tentativas em massa. */
+export const deriveKey = async (pin: string, salt: string) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptValue = async (key: CryptoKey, value: unknown): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { encrypted: 'AES-GCM', iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/** Falha (rejeita) quando a chave está errada ou o conteúdo foi alterado. */
+export const decryptValue = async (key: CryptoKey, value: EncryptedValue) => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+/**
+ * Codec que criptografa cada valor gravado. Valores ainda em texto puro são lidos normalmente,
+ * o que mantém os dados legíveis se o app fechar no meio da troca do PIN.
+ */
+export const createEncryptionCodec = (key: CryptoKey): ValueCodec => ({
+  encode: value => encryptValue(key, value),
+  decode: async stored => isEncryptedValue(stored) ? decryptValue(key, stored) : stored
+});
@@ -0,0 +1,67 @@
+import { Transaction, FixedExpense, CreditCard, Account } from '../types';
+import { getFixedExpensesForRange, parseDateLocal, getISODate } from '../utils';
+import { getCategoryAmounts } from './splits';
+
+// Ponto e vírgula e vírgula decimal: é o que o Excel e o Google Planilhas em português esperam
+const SEPARATOR = ';';
+
+const HEADER = ['Origem', 'Data', 'Tipo', 'Descrição', 'Categoria', 'App', 'Valor', 'Parcela', 'Pago', 'Cartão', 'Conta'];
+
+const escapeCell = (value: string) =>
+  /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const formatAmount = (value: number) => value.toFixed(2).replace('.', ',');
+
+const formatDay = (isoDate: string) => {
+  const [y, m, d] = isoDate.split('T')[0].split('-');
+  return `${d}/${m}/${y}`;
+};
+
+const TYPE_LABELS = { income: 'Ganho', expense: 'Gasto' };
+
+interface CsvExportOptions {
+  transactions: Transaction[];
+  fixedExpenses: FixedExpense[];
+  creditCards: CreditCard[];
+  accounts: Account[];
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Gera uma planilha com os lançamentos e as ocorrências das fixas no intervalo.
+ * As colunas de parcela, pagamento e cartão só se aplicam às fixas; a de conta, só aos lançamentos.
+ */
+export const buildCsv = ({ transactions, fixedExpenses, creditCards, accounts, startDate, endDate }: CsvExportOptions) => {
+  const transactionRows = transactions
+    .filter(t => {
+      const tDate = parseDateLocal(t.date);
+      return tDate >= startDate && tDate <= endDate;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date))
+    // Um gasto dividido vira uma linha por categoria, para a soma por categoria fechar na planilha
+    .flatMap(t => getCategoryAmounts(t).map(part =>
+      ['Lançamento', formatDay(t.date), TYPE_LABELS[t.type], t.description, part.category || '', t.platform || '', formatAmount(part.amount), '', '', '', accounts.find(a => a.id === t.accountId)?.name || '']
+    ));
+
+  const fixedRows = getFixedExpensesForRange(fixedExpenses, startDate, endDate).map(item => [
+    'Fixa',
+    formatDay(item.occurrenceDate),
+    TYPE_LABELS[item.type],
+    item.title,
+    item.category,
+    '',
+    formatAmount(item.amount),
+    item.currentInstallment ? `${item.currentInstallment}/${item.installments}` : '',
+    item.isPaid ? 'Sim' : 'Não',
+    creditCards.find(c => c.id === item.cardId)?.name || '',
+    ''
+  ]);
+
+  const lines = [HEADER, ...transactionRows, ...fixedRows].map(row => row.map(escapeCell).join(SEPARATOR));
+  // O BOM faz o Excel reconhecer os acentos como UTF-8
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+export const getCsvFileName = (startDate: Date, endDate: Date) =>
+  `meu-corre-${getISODate(startDate)}-a-${getISODate(endDate)}.csv`;
@@ -0,0 +1,138 @@
+import { CatalogItem, Transaction } from '../types';
+import { FUEL_CATEGORY, FUEL_CATEGORY_ID } from '../constants';
+import { getCategoryAmounts } from './splits';
+
+// Queda no km/l, em relação aos tanques anteriores, a partir da qual vale olhar a moto
+const DROP_THRESHOLD = 0.15;
+// Quantos tanques anteriores formam a base de comparação
+const BASELINE_TANKS = 3;
+
+/** Nome atual da categoria de combustível, mesmo que o usuário tenha renomeado o chip. */
+export const getFuelCategoryName = (catalog: CatalogItem[]) =>
+  catalog.find(item => item.id === FUEL_CATEGORY_ID)?.name || FUEL_CATEGORY;
+
+/** Quanto do lançamento foi combustível; num gasto dividido, só a parte de combustível. */
+export const getFuelAmount = (t: Transaction, fuelCategory: string) =>
+  t.type !== 'expense' ? 0 : getCategoryAmounts(t)
+    .filter(part => part.category === fuelCategory)
+    .reduce((acc, part) => acc + part.amount, 0);
+
+/** Gasto com combustível dos lançamentos e das contas fixas informados. */
+export const getFuelSpend = (
+  transactions: Transaction[],
+  fixedItems: { type: string; category?: string; amount: number }[],
+  fuelCategory: string
+) =>
+  transactions.reduce((acc, t) => acc + getFuelAmount(t, fuelCategory), 0) +
+  fixedItems
+    .filter(e => e.type === 'expense' && e.category === fuelCategory)
+    .reduce((acc, e) => acc + e.amount, 0);
+
+/** Abastecimentos com odômetro, em ordem de quilometragem. */
+export const getFuelFills = (transactions: Transaction[], fuelCategory: string) =>
+  transactions
+    .filter(t => t.fuel?.odometer && getFuelAmount(t, fuelCategory) > 0)
+    .sort((a, b) => a.fuel!.odometer! - b.fuel!.odometer! || a.date.localeCompare(b.date));
+
+/**
+ * Odômetro permitido para um abastecimento nesta data: não pode ficar abaixo do último
+ * registrado antes dela nem acima do primeiro registrado depois.
+ */
+export const getOdometerBounds = (transactions: Transaction[], date: string, fuelCategory: string, excludeId?: string) => {
+  const day = date.split('T')[0];
+  const others = getFuelFills(transactions, fuelCategory).filter(t => t.id !== excludeId);
+  const before = others.filter(t => t.date.split('T')[0] <= day).map(t => t.fuel!.odometer!);
+  const after = others.filter(t => t.date.split('T')[0] > day).map(t => t.fuel!.odometer!);
+  return {
+    min: before.length > 0 ? Math.max(...before) : undefined,
+    max: after.length > 0 ? Math.min(...after) : undefined
+  };
+};
+
+export interface FuelTank {
+  id: string; // Lançamento que completou o tanque
+  startDate: string;
+  endDate: string;
+  km: number;
+  liters: number | null; // null quando algum abastecimento do tanque ficou sem litros
+  cost: number;
+  kmPerLiter: number | null;
+  costPerKm: number;
+  baseline: number | null; // km/l dos tanques anteriores
+  isDrop: boolean;
+}
+
+/**
+ * Consumo tanque a tanque pelo método do tanque cheio: entre dois tanques completados,
+ * os litros colocados (somando os abastecimentos parciais do meio) cobrem os km rodados.
+ * Tanques com km/l bem abaixo dos anteriores ficam marcados como queda.
+ */
+export const buildFuelTanks = (transactions: Transaction[], fuelCategory: string): FuelTank[] => {
+  const tanks: FuelTank[] = [];
+  let start: Transaction | null = null;
+  let pending: Transaction[] = [];
+
+  getFuelFills(transactions, fuelCategory).forEach(fill => {
+    if (!start) {
+      // O primeiro tanque cheio é só o ponto de partida
+      if (!fill.fuel!.partial) start = fill;
+      return;
+    }
+    pending.push(fill);
+    if (fill.fuel!.partial) return;
+
+    const km = fill.fuel!.odometer! - start.fuel!.odometer!;
+    const liters = pending.every(f => f.fuel!.liters) ? pending.reduce((acc, f) => acc + f.fuel!.liters!, 0) : null;
+    const cost = pending.reduce((acc, f) => acc + getFuelAmount(f, fuelCategory), 0);
+    if (km > 0) {
+      tanks.push({
+        id: fill.id,
+        startDate: start.date,
+        endDate: fill.date,
+        km,
+        liters,
+        cost,
+        kmPerLiter: liters ? km / liters : null,
+        costPerKm: cost / km,
+        baseline: null,
+        isDrop: false
+      });
+    }
+    start = fill;
+    pending = [];
+  });
+
+  return tanks.map((tank, i) => {
+    const previous = tanks.slice(0, i).filter(t => t.liters).slice(-BASELINE_TANKS);
+    const previousLiters = previous.reduce((acc, t) => acc + t.liters!, 0);
+    const baseline = previousLiters > 0 ? previous.reduce((acc, t) => acc + t.km, 0) / previousLiters : null;
+    return {
+      ...tank,
+      baseline,
+      isDrop: tank.kmPerLiter !== null && baseline !== null && tank.kmPerLiter < baseline * (1 - DROP_THRESHOLD)
+    };
+  });
+};
+
+export interface FuelSummary {
+  tanks: number;
+  km: number;
+  cost: number;
+  kmPerLiter: number | null;
+  costPerKm: number | null;
+}
+
+/** Médias ponderadas pelos km, para que um tanque curto não pese como um longo. */
+export const summarizeFuelTanks = (tanks: FuelTank[]): FuelSummary => {
+  const km = tanks.reduce((acc, t) => acc + t.km, 0);
+  const cost = tanks.reduce((acc, t) => acc + t.cost, 0);
+  const measured = tanks.filter(t => t.liters);
+  const liters = measured.reduce((acc, t) => acc + t.liters!, 0);
+  return {
+    tanks: tanks.length,
+    km,
+    cost,
+    kmPerLiter: liters > 0 ? measured.reduce((acc, t) => acc + t.km, 0) / liters : null,
+    costPerKm: km > 0 ? cost / km : null
+  };
+};
@@ -0,0 +1,272 @@
+import { AppData } from '../types';
+import { createLocalStorageRepository, hasLocalStorageData, clearLocalStorageData } from './localStorageRepository';
+import { SCHEMA_VERSION, migrateAppData } from './migrations';
+import { DataRepository, RECORD_COLLECTIONS, RecordCollection, StorageError, StoredAttachment, ValueCodec, plainCodec, createWriteQueue } from './repository';
+
+// v2: store das fotos anexadas
+const DB_VERSION = 2;
+
+// Todos os registros ficam em um único store, com chave [coleção, id].
+// Assim novas coleções não exigem mudar a estrutura do banco.
+const RECORDS_STORE = 'records';
+const META_STORE = 'meta';
+// As fotos ficam em um store próprio para que carregar os dados não traga todas elas para a memória
+const ATTACHMENTS_STORE = 'attachments';
+
+interface StoredRecord {
+  collection: RecordCollection;
+  id: string;
+  // Mantém a ordem em que os registros foram criados, já que o store ordena pela chave
+  position: number;
+  value: unknown;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Abre (e atualiza, se preciso) o banco do perfil. Uma aba antiga aberta segura a atualização:
+ * o `blocked` só avisa por `onBlocked`, porque a abertura termina assim que a outra aba fechar.
+ */
+export const openDatabase = (name: string, onBlocked?: () => void) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+        db.createObjectStore(RECORDS_STORE, { keyPath: ['collection', 'id'] });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+        db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Libera o banco quando outra aba precisa apagá-lo ou atualizá-lo; ela avisa para recarregar
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => onBlocked?.();
+  });
+
+export const deleteDatabase = (name: string) =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Abas antigas, sem o `onversionchange`, não largam o banco; melhor avisar do que esperar para sempre
+    request.onblocked = () => reject(new StorageError('Feche as outras abas do Meu Corre e tente de novo.', 'write-failed'));
+  });
+
+/**
+ * `legacyPrefix` aponta para as chaves do localStorage do mesmo perfil,
+ * de onde os dados são trazidos na primeira abertura do banco.
+ * Os valores passam pelo `codec`; chaves e ordem dos registros ficam sem codificação.
+ */
+export const createIndexedDbRepository = (db: IDBDatabase, legacyPrefix = '', initialCodec: ValueCodec = plainCodec): DataRepository => {
+  const positions = new Map<string, number>();
+  let nextPosition = 0;
+  let codec = initialCodec;
+  // Codec com que as fotos estão gravadas; só muda quando `replaceAll` as recodifica
+  let attachmentCodec = initialCodec;
+  const enqueue = createWriteQueue();
+
+  const positionOf = (collection: RecordCollection, id: string) => {
+    const key = `${collection}:${id}`;
+    if (!positions.has(key)) positions.set(key, nextPosition++);
+    return positions.get(key)!;
+  };
+
+  // Uma transação do IndexedDB é encerrada ao esperar qualquer outra coisa,
+  // então tudo é codificado antes de abri-la
+  const encodeRecords = (collection: RecordCollection, values: { id: string }[]) =>
+    Promise.all(values.map(async value => ({
+      collection,
+      id: value.id,
+      position: positionOf(collection, value.id),
+      value: await codec.encode(value)
+    } as StoredRecord)));
+
+  // Uma foto por vez, para não carregar todas na memória ao trocar o PIN
+  const recodeAttachments = async () => {
+    if (attachmentCodec === codec) return;
+    const ids = await requestToPromise(db.transaction(ATTACHMENTS_STORE, 'readonly').objectStore(ATTACHMENTS_STORE).getAllKeys());
+    for (const id of ids) {
+      const stored: StoredAttachment | undefined = await requestToPromise(
+        db.transaction(ATTACHMENTS_STORE, 'readonly').objectStore(ATTACHMENTS_STORE).get(id)
+      );
+      if (!stored) continue;
+      const data = await codec.encode(await attachmentCodec.decode(stored.data));
+      await requestToPromise(db.transaction(ATTACHMENTS_STORE, 'readwrite').objectStore(ATTACHMENTS_STORE).put({ ...stored, data }));
+    }
+    attachmentCodec = codec;
+  };
+
+  const replaceAll = (data: AppData) => enqueue(async () => {
+    await recodeAttachments();
+    positions.clear();
+    nextPosition = 0;
+    const encoded = (await Promise.all(
+      RECORD_COLLECTIONS.map(collection => encodeRecords(collection, data[collection] as { id: string }[]))
+    )).flat();
+    const goalSettings = await codec.encode(data.goalSettings);
+
+    const tx = db.transaction([RECORDS_STORE, META_STORE], 'readwrite');
+    const records = tx.objectStore(RECORDS_STORE);
+    const meta = tx.objectStore(META_STORE);
+
+    records.clear();
+    encoded.forEach(record => records.put(record));
+    meta.put(goalSettings, 'goalSettings');
+    meta.put(SCHEMA_VERSION, 'schemaVersion');
+
+    await transactionDone(tx);
+  });
+
+  return {
+    async load() {
+      const tx = db.transaction([RECORDS_STORE, META_STORE], 'readonly');
+      const [version, storedGoalSettings, stored] = await Promise.all([
+        requestToPromise(tx.objectStore(META_STORE).get('schemaVersion')) as Promise<number | undefined>,
+        requestToPromise(tx.objectStore(META_STORE).get('goalSettings')),
+        requestToPromise(tx.objectStore(RECORDS_STORE).getAll()) as Promise<StoredRecord[]>
+      ]);
+
+      // Banco novo: traz os dados das versões que gravavam no localStorage
+      if (version === undefined) {
+        if (!hasLocalStorageData(legacyPrefix)) return migrateAppData({}, 0);
+
+        const legacy = await createLocalStorageRepository(legacyPrefix, codec).load();
+        await replaceAll(legacy);
+        clearLocalStorageData(legacyPrefix);
+        return legacy;
+      }
+
+      if (version > SCHEMA_VERSION) {
+        throw new StorageError('Os dados foram salvos por uma versão mais nova do aplicativo.', 'newer-version');
+      }
+
+      stored.sort((a, b) => a.position - b.position);
+      positions.clear();
+      nextPosition = 0;
+      stored.forEach(r => positionOf(r.collection, r.id));
+
+      let goalSettings: unknown;
+      let values: unknown[];
+      try {
+        goalSettings = storedGoalSettings === undefined ? undefined : await codec.decode(storedGoalSettings);
+        values = await Promise.all(stored.map(r => codec.decode(r.value)));
+      } catch {
+        throw new StorageError('Não foi possível ler os dados salvos.', 'unreadable');
+      }
+
+      const raw: Record<string, unknown> = { goalSettings };
+      RECORD_COLLECTIONS.forEach(collection => {
+        raw[collection] = values.filter((_, i) => stored[i].collection === collection);
+      });
+
+      const data = migrateAppData(raw, version);
+      if (version < SCHEMA_VERSION) await replaceAll(data);
+      return data;
+    },
+
+    apply(changes) {
+      return enqueue(async () => {
+        const upserts = (await Promise.all(
+          RECORD_COLLECTIONS.map(collection => encodeRecords(collection, (changes.upserts[collection] || []) as { id: string }[]))
+        )).flat();
+        const goalSettings = changes.goalSettings && await codec.encode(changes.goalSettings);
+
+        const tx = db.transaction([RECORDS_STORE, META_STORE], 'readwrite');
+        const records = tx.objectStore(RECORDS_STORE);
+
+        RECORD_COLLECTIONS.forEach(collection => {
+          (changes.deletes[collection] || []).forEach(id => {
+            records.delete([collection, id]);
+            positions.delete(`${collection}:${id}`);
+          });
+        });
+        upserts.forEach(record => records.put(record));
+
+        const meta = tx.objectStore(META_STORE);
+        if (goalSettings) meta.put(goalSettings, 'goalSettings');
+        meta.put(SCHEMA_VERSION, 'schemaVersion');
+
+        await transactionDone(tx);
+      });
+    },
+
+    replaceAll,
+
+    clear() {
+      return enqueue(async () => {
+        const tx = db.transaction([RECORDS_STORE, META_STORE, ATTACHMENTS_STORE], 'readwrite');
+        tx.objectStore(RECORDS_STORE).clear();
+        tx.objectStore(META_STORE).clear();
+        tx.objectStore(ATTACHMENTS_STORE).clear();
+        positions.clear();
+        nextPosition = 0;
+        await transactionDone(tx);
+      });
+    },
+
+    close() {
+      db.close();
+    },
+
+    setCodec(next) {
+      codec = next;
+    },
+
+    saveAttachment(id, dataUrl) {
+      return enqueue(async () => {
+        const stored: StoredAttachment = { id, createdAt: Date.now(), data: await codec.encode(dataUrl) };
+        await requestToPromise(db.transaction(ATTACHMENTS_STORE, 'readwrite').objectStore(ATTACHMENTS_STORE).put(stored));
+      });
+    },
+
+    loadAttachment(id) {
+      // Passa pela fila para não ler uma foto no meio da troca do PIN
+      return enqueue(async () => {
+        const stored: StoredAttachment | undefined = await requestToPromise(
+          db.transaction(ATTACHMENTS_STORE, 'readonly').objectStore(ATTACHMENTS_STORE).get(id)
+        );
+        if (!stored) return null;
+        try {
+          return await codec.decode(stored.data) as string;
+        } catch {
+          throw new StorageError('Não foi possível ler a foto.', 'unreadable');
+        }
+      });
+    },
+
+    pruneAttachments(referencedIds, createdBefore) {
+      return enqueue(async () => {
+        const tx = db.transaction(ATTACHMENTS_STORE, 'readwrite');
+        const request = tx.objectStore(ATTACHMENTS_STORE).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          const { id, createdAt } = cursor.value as StoredAttachment;
+          if (!referencedIds.has(id) && createdAt < createdBefore) cursor.delete();
+          cursor.continue();
+        };
+        await transactionDone(tx);
+      });
+    }
+  };
+};
@@ -0,0 +1,185 @@
+import { AppData } from '../types';
+import { createEmptyAppData } from '../constants';
+import { SCHEMA_VERSION, migrateAppData } from './migrations';
+import { DataRepository, RECORD_COLLECTIONS, StorageError, StoredAttachment, ValueCodec, plainCodec, createWriteQueue } from './repository';
+
+const DATA_KEYS: (keyof AppData)[] = [...RECORD_COLLECTIONS, 'goalSettings'];
+const VERSION_KEY = 'schemaVersion';
+const ATTACHMENT_KEY_PREFIX = 'attachment:';
+
+// Perfis além do principal gravam as mesmas chaves com um prefixo
+const readKey = async (prefix: string, key: keyof AppData, codec: ValueCodec) => {
+  const raw = localStorage.getItem(prefix + key);
+  if (raw === null) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = await codec.decode(JSON.parse(raw));
+  } catch {
+    throw new StorageError(`Não foi possível ler "${key}".`, 'unreadable');
+  }
+
+  const isValid = key === 'goalSettings'
+    ? typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    : Array.isArray(parsed);
+  if (!isValid) {
+    throw new StorageError(`O conteúdo de "${key}" está em um formato inesperado.`, 'unreadable');
+  }
+  return parsed;
+};
+
+const readVersion = (prefix: string) => {
+  const raw = localStorage.getItem(prefix + VERSION_KEY);
+  // Instalações anteriores ao versionamento não gravavam a chave
+  if (raw === null) return 0;
+
+  const version = Number(raw);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new StorageError('A versão dos dados salvos é inválida.', 'unreadable');
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new StorageError('Os dados foram salvos por uma versão mais nova do aplicativo.', 'newer-version');
+  }
+  return version;
+};
+
+const writeKeys = async (prefix: string, data: Partial<AppData>, codec: ValueCodec) => {
+  const keys = DATA_KEYS.filter(key => data[key] !== undefined);
+  // Codifica tudo antes de gravar, para não deixar metade das chaves atualizadas se algo falhar
+  const encoded = await Promise.all(keys.map(key => codec.encode(data[key])));
+  keys.forEach((key, i) => localStorage.setItem(prefix + key, JSON.stringify(encoded[i])));
+  localStorage.setItem(prefix + VERSION_KEY, String(SCHEMA_VERSION));
+};
+
+/** Indica se existem dados de versões antigas, que gravavam tudo no localStorage. */
+export const hasLocalStorageData = (prefix = '') => DATA_KEYS.some(key => localStorage.getItem(prefix + key) !== null);
+
+const getAttachmentKeys = (prefix: string) =>
+  Object.keys(localStorage).filter(key => key.startsWith(prefix + ATTACHMENT_KEY_PREFIX));
+
+const readAttachment = (key: string): StoredAttachment | null => JSON.parse(localStorage.getItem(key) || 'null');
+
+export const clearLocalStorageData = (prefix = '') => {
+  DATA_KEYS.forEach(key => localStorage.removeItem(prefix + key));
+  localStorage.removeItem(prefix + VERSION_KEY);
+  getAttachmentKeys(prefix).forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Backend de reserva para navegadores sem IndexedDB.
+ * O localStorage não permite gravações parciais, então cada coleção alterada é relida e regravada inteira.
+ */
+export const createLocalStorageRepository = (prefix = '', initialCodec: ValueCodec = plainCodec): DataRepository => {
+  let cache = createEmptyAppData();
+  let codec = initialCodec;
+  let attachmentCodec = initialCodec;
+  const enqueue = createWriteQueue();
+
+  const recodeAttachments = async () => {
+    if (attachmentCodec === codec) return;
+    for (const key of getAttachmentKeys(prefix)) {
+      const stored = readAttachment(key);
+      if (!stored) continue;
+      const data = await codec.encode(await attachmentCodec.decode(stored.data));
+      localStorage.setItem(key, JSON.stringify({ ...stored, data }));
+    }
+    attachmentCodec = codec;
+  };
+
+  return {
+    async load() {
+      const version = readVersion(prefix);
+      const raw: Record<string, unknown> = {};
+      for (const key of DATA_KEYS) {
+        raw[key] = await readKey(prefix, key, codec);
+      }
+
+      cache = migrateAppData(raw, version);
+      if (version < SCHEMA_VERSION) await enqueue(() => writeKeys(prefix, cache, codec));
+      return cache;
+    },
+
+    apply(changes) {
+      return enqueue(async () => {
+        const changed: Partial<AppData> = {};
+
+        for (const collection of RECORD_COLLECTIONS) {
+          const upserts: { id: string }[] = changes.upserts[collection] || [];
+          const deletes = new Set(changes.deletes[collection] || []);
+          if (upserts.length === 0 && deletes.size === 0) continue;
+
+          // Outra aba pode ter gravado a coleção depois da nossa última leitura; regravar a cópia
+          // em memória apagaria o que ela acrescentou, então a base é sempre o que está salvo
+          const stored = await readKey(prefix, collection, codec) as { id: string }[] | undefined;
+          const current: { id: string }[] = stored || cache[collection];
+          const upsertsById = new Map(upserts.map(r => [r.id, r]));
+          const next = current
+            .filter(r => !deletes.has(r.id))
+            .map(r => upsertsById.get(r.id) || r);
+          const existingIds = new Set(current.map(r => r.id));
+          upserts.forEach(r => {
+            if (!existingIds.has(r.id)) next.push(r);
+          });
+          (changed as Record<string, unknown>)[collection] = next;
+        }
+
+        if (changes.goalSettings) changed.goalSettings = changes.goalSettings;
+
+        cache = { ...cache, ...changed };
+        await writeKeys(prefix, changed, codec);
+      });
+    },
+
+    replaceAll(data) {
+      cache = data;
+      return enqueue(async () => {
+        await recodeAttachments();
+        await writeKeys(prefix, data, codec);
+      });
+    },
+
+    clear() {
+      cache = createEmptyAppData();
+      return enqueue(async () => clearLocalStorageData(prefix));
+    },
+
+    close() {},
+
+    setCodec(next) {
+      codec = next;
+    },
+
+    // Sem IndexedDB as fotos disputam os poucos megabytes do localStorage, então a gravação pode falhar
+    saveAttachment(id, dataUrl) {
+      return enqueue(async () => {
+        const stored: StoredAttachment = { id, createdAt: Date.now(), data: await codec.encode(dataUrl) };
+        try {
+          localStorage.setItem(prefix + ATTACHMENT_KEY_PREFIX + id, JSON.stringify(stored));
+        } catch {
+          throw new StorageError('Não há espaço para guardar a foto neste navegador.', 'write-failed');
+        }
+      });
+    },
+
+    loadAttachment(id) {
+      return enqueue(async () => {
+        const stored = readAttachment(prefix + ATTACHMENT_KEY_PREFIX + id);
+        if (!stored) return null;
+        try {
+          return await codec.decode(stored.data) as string;
+        } catch {
+          throw new StorageError('Não foi possível ler a foto.', 'unreadable');
+        }
+      });
+    },
+
+    pruneAttachments(referencedIds, createdBefore) {
+      return enqueue(async () => {
+        getAttachmentKeys(prefix).forEach(key => {
+          const stored = readAttachment(key);
+          if (stored && !referencedIds.has(stored.id) && stored.createdAt < createdBefore) localStorage.removeItem(key);
+        });
+      });
+    }
+  };
+};
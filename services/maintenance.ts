@@ -0,0 +1,199 @@
+import { AppData, CatalogItem, FixedExpense, MaintenancePlan, Transaction } from '../types';
+import { MAINTENANCE_CATEGORY, MAINTENANCE_CATEGORY_ID } from '../constants';
+import { getDaysInMonth, getISODate, parseDateLocal } from '../utils';
+
+const DAY = 24 * 60 * 60 * 1000;
+// Leituras dos últimos meses medem o ritmo atual; bem mais antigas falam de outra rotina
+const PACE_WINDOW_DAYS = 90;
+// Com leituras muito próximas o ritmo sai exagerado
+const MIN_PACE_SPAN_DAYS = 7;
+// A conta da próxima manutenção aparece com esta antecedência, em dias ou em parte do intervalo de km
+const NOTICE_DAYS = 7;
+const NOTICE_KM_SHARE = 0.15;
+
+export interface OdometerReading {
+  date: string; // YYYY-MM-DD
+  km: number;
+}
+
+export type MaintenanceState = 'ok' | 'soon' | 'overdue';
+
+export interface MaintenanceStatus {
+  state: MaintenanceState;
+  dueKm?: number;
+  kmLeft?: number;
+  dueDate?: string; // O que vier primeiro entre a data prevista pelos km e o prazo em meses
+  daysLeft?: number;
+}
+
+export const getMaintenanceCategoryName = (catalog: CatalogItem[]) =>
+  catalog.find(item => item.id === MAINTENANCE_CATEGORY_ID)?.name || MAINTENANCE_CATEGORY;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((parseDateLocal(to).getTime() - parseDateLocal(from).getTime()) / DAY);
+
+const addDays = (date: string, days: number) => {
+  const d = parseDateLocal(date);
+  d.setDate(d.getDate() + days);
+  return getISODate(d);
+};
+
+// Dia 31 + 1 mês vira o último dia do mês seguinte, não o começo do outro
+const addMonths = (date: string, months: number) => {
+  const d = parseDateLocal(date);
+  const target = new Date(d.getFullYear(), d.getMonth() + months, 1);
+  target.setDate(Math.min(d.getDate(), getDaysInMonth(target.getFullYear(), target.getMonth())));
+  return getISODate(target);
+};
+
+/** Leituras do odômetro: as dos abastecimentos e as anotadas nas manutenções feitas. */
+export const getOdometerReadings = (transactions: Transaction[], plans: MaintenancePlan[]): OdometerReading[] => [
+  ...transactions.filter(t => t.fuel?.odometer).map(t => ({ date: t.date.split('T')[0], km: t.fuel!.odometer! })),
+  ...plans.filter(p => p.lastDoneKm).map(p => ({ date: p.lastDoneDate, km: p.lastDoneKm! }))
+].sort((a, b) => a.date.localeCompare(b.date) || a.km - b.km);
+
+/** Km rodados por dia, pela distância entre a leitura mais recente e as dos últimos meses. */
+export const getDailyKm = (readings: OdometerReading[]): number | null => {
+  if (readings.length < 2) return null;
+  const last = readings[readings.length - 1];
+  const recent = readings.filter(r => daysBetween(r.date, last.date) <= PACE_WINDOW_DAYS);
+  const first = daysBetween(recent[0].date, last.date) >= MIN_PACE_SPAN_DAYS ? recent[0] : readings[0];
+  const days = daysBetween(first.date, last.date);
+  return days >= MIN_PACE_SPAN_DAYS && last.km > first.km ? (last.km - first.km) / days : null;
+};
+
+/** Odômetro provável numa data: a última leitura até ela somada ao ritmo de km por dia. */
+export const estimateOdometer = (readings: OdometerReading[], dailyKm: number | null, date: string): number | null => {
+  const previous = readings.filter(r => r.date <= date);
+  const last = previous.length > 0 ? previous[previous.length - 1] : readings[0];
+  if (!last) return null;
+  return Math.round(last.km + (dailyKm || 0) * Math.max(0, daysBetween(last.date, date)));
+};
+
+export const getMaintenanceStatus = (plan: MaintenancePlan, odometer: number | null, dailyKm: number | null, today = new Date()): MaintenanceStatus => {
+  const todayKey = getISODate(today);
+  const dueDates: string[] = [];
+  let dueKm: number | undefined;
+  let kmLeft: number | undefined;
+
+  if (plan.intervalKm && plan.lastDoneKm !== undefined) {
+    dueKm = plan.lastDoneKm + plan.intervalKm;
+    if (odometer !== null) {
+      kmLeft = dueKm - odometer;
+      if (dailyKm) dueDates.push(addDays(todayKey, Math.max(0, Math.floor(kmLeft / dailyKm))));
+    }
+  }
+  if (plan.intervalMonths) dueDates.push(addMonths(plan.lastDoneDate, plan.intervalMonths));
+
+  const dueDate = dueDates.sort()[0];
+  const daysLeft = dueDate ? daysBetween(todayKey, dueDate) : undefined;
+  const state: MaintenanceState =
+    (kmLeft !== undefined && kmLeft <= 0) || (daysLeft !== undefined && daysLeft < 0) ? 'overdue'
+    : (kmLeft !== undefined && kmLeft <= plan.intervalKm! * NOTICE_KM_SHARE) || (daysLeft !== undefined && daysLeft <= NOTICE_DAYS) ? 'soon'
+    : 'ok';
+
+  return { state, dueKm, kmLeft, dueDate, daysLeft };
+};
+
+// Os aparelhos sincronizados chegam à mesma conta para a mesma manutenção, em vez de cada um criar a sua
+const getPendingExpenseId = (plan: MaintenancePlan) => `maintenance:${plan.id}:${plan.lastDoneDate}`;
+
+/**
+ * Mantém as contas dos planos em dia: quando a conta pendente de um plano é paga, o plano
+ * conta como feito no vencimento ou no pagamento, o que vier antes; quando a próxima manutenção
+ * fica perto, cria uma conta avulsa com o custo estimado. Devolve `data` intacto se nada mudou.
+ */
+export const scheduleMaintenance = (data: AppData, today = new Date()): AppData => {
+  if (data.maintenancePlans.length === 0) return data;
+
+  const todayKey = getISODate(today);
+  const readings = getOdometerReadings(data.transactions, data.maintenancePlans);
+  const dailyKm = getDailyKm(readings);
+  const category = getMaintenanceCategoryName(data.catalog);
+  const created: FixedExpense[] = [];
+  let changed = false;
+
+  const maintenancePlans = data.maintenancePlans.map(plan => {
+    if (plan.pendingExpenseId) {
+      const pending = data.fixedExpenses.find(e => e.id === plan.pendingExpenseId);
+      // Conta excluída continua vinculada, para não ser recriada a cada abertura do app
+      if (!pending?.paidDates?.includes(pending.startDate)) return plan;
+      changed = true;
+      // A conta vence na data prevista, mas a manutenção foi feita quando foi paga; pagar
+      // adiantado não pode empurrar a próxima para depois
+      const doneDate = pending.startDate < todayKey ? pending.startDate : todayKey;
+      return {
+        ...plan,
+        lastDoneDate: doneDate,
+        // Só planos por km guardam o odômetro estimado, que também passa a contar como leitura
+        lastDoneKm: plan.intervalKm ? estimateOdometer(readings, dailyKm, doneDate) ?? plan.lastDoneKm : plan.lastDoneKm,
+        pendingExpenseId: undefined
+      };
+    }
+
+    const status = getMaintenanceStatus(plan, estimateOdometer(readings, dailyKm, todayKey), dailyKm, today);
+    if (status.state === 'ok') return plan;
+
+    const id = getPendingExpenseId(plan);
+    // Outro aparelho já criou esta conta e ela chegou pela sincronização antes do plano
+    if (data.fixedExpenses.some(e => e.id === id)) {
+      changed = true;
+      return { ...plan, pendingExpenseId: id };
+    }
+
+    const expense: FixedExpense = {
+      id,
+      title: plan.name,
+      amount: plan.estimatedCost,
+      category,
+      type: 'expense',
+      startDate: status.dueDate && status.dueDate > todayKey ? status.dueDate : todayKey,
+      recurrence: 'single'
+    };
+    created.push(expense);
+    changed = true;
+    return { ...plan, pendingExpenseId: expense.id };
+  });
+
+  if (!changed) return data;
+  return { ...data, maintenancePlans, fixedExpenses: [...data.fixedExpenses, ...created] };
+};
+
+export interface MaintenanceDone {
+  date: string; // YYYY-MM-DD
+  km?: number;
+  cost: number;
+}
+
+/**
+ * Registra a manutenção feita: a conta pendente do plano vira paga com o valor real, ou,
+ * sem conta pendente, o custo entra como gasto do dia.
+ */
+export const completeMaintenance = (data: AppData, planId: string, done: MaintenanceDone, createId: () => string): AppData => {
+  const plan = data.maintenancePlans.find(p => p.id === planId);
+  if (!plan) return data;
+
+  const pending = plan.pendingExpenseId ? data.fixedExpenses.find(e => e.id === plan.pendingExpenseId) : undefined;
+  const fixedExpenses = pending
+    ? data.fixedExpenses.map(e => e.id === pending.id ? { ...e, startDate: done.date, amount: done.cost || e.amount, paidDates: [done.date] } : e)
+    : data.fixedExpenses;
+  const transactions = !pending && done.cost > 0
+    ? [...data.transactions, {
+        id: createId(),
+        amount: done.cost,
+        description: plan.name,
+        date: done.date,
+        type: 'expense' as const,
+        category: getMaintenanceCategoryName(data.catalog)
+      }]
+    : data.transactions;
+
+  return {
+    ...data,
+    transactions,
+    fixedExpenses,
+    maintenancePlans: data.maintenancePlans.map(p => p.id === planId
+      ? { ...p, lastDoneDate: done.date, lastDoneKm: done.km ?? p.lastDoneKm, pendingExpenseId: undefined }
+      : p)
+  };
+};
@@ -0,0 +1,118 @@
+import { AppData } from '../types';
+import { DEFAULT_GOAL_SETTINGS, DELIVERY_APPS, EXPENSE_CATEGORIES, FUEL_CATEGORY, createDefaultCatalog, createDefaultAccounts } from '../constants';
+
+/**
+ * Versão atual do formato dos dados salvos.
+ * Toda mudança em types.ts que afete o que é persistido precisa de uma nova migração abaixo.
+ */
+export const SCHEMA_VERSION = 11;
+
+type RawData = Record<string, unknown>;
+
+// Dados antigos podem ter qualquer forma; o que não for objeto ou lista conta como ausente
+const asRecord = (value: unknown): RawData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as RawData : {};
+
+const asList = (value: unknown, fallback: unknown[] = []): unknown[] => Array.isArray(value) ? value : fallback;
+
+/**
+ * Versões antigas gravavam o chip escolhido no fim da descrição ("Almoço - Alimentação").
+ * Só sufixos que são chips conhecidos viram categoria, para não cortar descrições com hífen.
+ */
+const extractCategory = (transaction: RawData): RawData => {
+  const { description } = transaction;
+  if (transaction.category !== undefined || typeof description !== 'string') return transaction;
+
+  const chips = transaction.type === 'income' ? DELIVERY_APPS : EXPENSE_CATEGORIES;
+  const separator = description.lastIndexOf(' - ');
+  if (separator !== -1) {
+    const suffix = description.slice(separator + 3).trim().toLowerCase();
+    const chip = chips.find(c => c.toLowerCase() === suffix);
+    if (chip) return { ...transaction, description: description.slice(0, separator), category: chip };
+  }
+
+  // Sem chip, o total de combustível era achado pelo texto; mantém esses gastos na categoria
+  const text = description.toLowerCase();
+  if (transaction.type === 'expense' && ['combustível', 'gasolina', 'posto'].some(word => text.includes(word))) {
+    return { ...transaction, category: FUEL_CATEGORY };
+  }
+  return transaction;
+};
+
+const extractPlatform = (transaction: RawData): RawData => {
+  if (transaction.type !== 'income' || typeof transaction.category !== 'string' || !DELIVERY_APPS.includes(transaction.category)) return transaction;
+  const { category, ...rest } = transaction;
+  return { ...rest, platform: category };
+};
+
+// Aplica a mesma migração aos lançamentos que estão na lixeira
+const mapTrashedTransaction = (migrate: (transaction: RawData) => RawData) => (item: unknown) => {
+  const entry = asRecord(item);
+  return entry.kind === 'transaction' ? { ...entry, record: migrate(asRecord(entry.record)) } : item;
+};
+
+/**
+ * Migrações em ordem: a entrada de índice N leva os dados da versão N para a N + 1.
+ * Instalações antigas, que não gravavam a versão, são tratadas como versão 0.
+ */
+const migrations: ((data: RawData) => RawData)[] = [
+  // v0 -> v1: remove as metas mensais obsoletas e completa campos que versões antigas não gravavam
+  (data) => {
+    const { monthlyGoal, monthlyGoals, ...goals } = asRecord(data.goalSettings);
+    return {
+      ...data,
+      transactions: asList(data.transactions),
+      fixedExpenses: asList(data.fixedExpenses),
+      creditCards: asList(data.creditCards),
+      goalSettings: {
+        ...goals,
+        daysOff: goals.daysOff || [],
+        startDayOfMonth: goals.startDayOfMonth || DEFAULT_GOAL_SETTINGS.startDayOfMonth,
+        dailySavingTarget: goals.dailySavingTarget || 0,
+        savingsDates: goals.savingsDates || [],
+        savingsAdjustments: goals.savingsAdjustments || {},
+        savingsWithdrawals: goals.savingsWithdrawals || {}
+      }
+    };
+  },
+  // v1 -> v2: lixeira
+  (data) => ({ ...data, trash: asList(data.trash) }),
+  // v2 -> v3: lápides para a sincronização (o `updatedAt` dos registros é opcional e não precisa ser preenchido)
+  (data) => ({ ...data, tombstones: asList(data.tombstones) }),
+  // v3 -> v4: categoria dos lançamentos em campo próprio, inclusive dos que estão na lixeira
+  (data) => ({
+    ...data,
+    transactions: asList(data.transactions).map(t => extractCategory(asRecord(t))),
+    trash: asList(data.trash).map(mapTrashedTransaction(extractCategory))
+  }),
+  // v4 -> v5: nos ganhos, o chip é o app de entrega e passa para o campo `platform`
+  (data) => ({
+    ...data,
+    transactions: asList(data.transactions).map(t => extractPlatform(asRecord(t))),
+    trash: asList(data.trash).map(mapTrashedTransaction(extractPlatform))
+  }),
+  // v5 -> v6: catálogo editável de categorias e apps, começando pelos chips que eram fixos no código
+  (data) => ({ ...data, catalog: asList(data.catalog, createDefaultCatalog()) }),
+  // v6 -> v7: atalhos de lançamento, que começam vazios
+  (data) => ({ ...data, templates: asList(data.templates) }),
+  // v7 -> v8: registro diário de entregas, km e horas
+  (data) => ({ ...data, workLogs: asList(data.workLogs) }),
+  // v8 -> v9: turnos do cronômetro de trabalho
+  (data) => ({ ...data, shifts: asList(data.shifts) }),
+  // v9 -> v10: planos de manutenção da moto
+  (data) => ({ ...data, maintenancePlans: asList(data.maintenancePlans) }),
+  // v10 -> v11: contas e transferências; os lançamentos antigos ficam sem conta
+  (data) => ({ ...data, accounts: asList(data.accounts, createDefaultAccounts()), transfers: asList(data.transfers) }),
+];
+
+/**
+ * Aplica, em ordem, todas as migrações pendentes a partir de `fromVersion`.
+ * Quem chama deve garantir que `fromVersion` não é maior que SCHEMA_VERSION.
+ */
+export const migrateAppData = (raw: RawData, fromVersion: number): AppData => {
+  let data = raw;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    data = migrations[version](data);
+  }
+  return data as unknown as AppData;
+};
@@ -0,0 +1,78 @@
+import { TransactionType } from '../types';
+
+export interface OfxEntry {
+  /** Identificador estável do lançamento no banco, usado para não importar duas vezes */
+  externalId: string;
+  date: string; // YYYY-MM-DD
+  type: TransactionType;
+  amount: number;
+  description: string;
+}
+
+export class OfxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OfxError';
+  }
+}
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Funciona tanto no OFX 1.x (SGML, sem tags de fechamento) quanto no 2.x (XML)
+const readTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>\\s*([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+// DTPOSTED vem como AAAAMMDD[HHMMSS[.XXX][[-3:BRT]]]
+const parseOfxDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const parseOfxAmount = (value: string) => {
+  // Alguns bancos exportam no formato brasileiro (-1.234,56): a vírgula decimal vem depois dos pontos de milhar
+  const hasCommaDecimal = value.lastIndexOf(',') > value.lastIndexOf('.');
+  const normalized = hasCommaDecimal ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '');
+  return parseFloat(normalized);
+};
+
+/**
+ * Bancos brasileiros costumam exportar OFX 1.x em Windows-1252; o cabeçalho informa a codificação.
+ */
+export const decodeOfxFile = (buffer: ArrayBuffer) => {
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 512));
+  const isLatin = /CHARSET:\s*(1252|8859)/i.test(head) || /encoding="(windows-1252|iso-8859-1)"/i.test(head);
+  return new TextDecoder(isLatin ? 'windows-1252' : 'utf-8').decode(buffer);
+};
+
+export const parseOfx = (text: string): OfxEntry[] => {
+  if (!/<OFX>/i.test(text)) {
+    throw new OfxError('O arquivo não parece ser um extrato OFX.');
+  }
+
+  const accountId = readTag(text, 'ACCTID');
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks.flatMap(block => {
+    const fitId = readTag(block, 'FITID');
+    const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+    const amount = parseOfxAmount(readTag(block, 'TRNAMT'));
+    if (!fitId || !date || !Number.isFinite(amount) || amount === 0) return [];
+
+    const entry: OfxEntry = {
+      externalId: accountId ? `${accountId}:${fitId}` : fitId,
+      date,
+      type: amount < 0 ? 'expense' : 'income',
+      amount: Math.abs(amount),
+      description: readTag(block, 'MEMO') || readTag(block, 'NAME') || 'Lançamento bancário'
+    };
+    return [entry];
+  });
+};
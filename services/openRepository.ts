@@ -0,0 +1,25 @@
+import { DataRepository, StorageError, ValueCodec, plainCodec } from './repository';
+import { createIndexedDbRepository, openDatabase } from './indexedDbRepository';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { getDatabaseName, getStorageKeyPrefix } from './profiles';
+
+/**
+ * Usa o IndexedDB sempre que possível e cai para o localStorage
+ * em navegadores sem suporte (ou com o IndexedDB desabilitado, como em algumas abas anônimas).
+ * Cada perfil tem seu próprio banco (ou prefixo de chaves).
+ * `onBlocked` avisa que outra aba está segurando a atualização do banco; a abertura continua esperando.
+ */
+export const openRepository = async (profileId: string, codec: ValueCodec = plainCodec, onBlocked?: () => void): Promise<DataRepository> => {
+  const prefix = getStorageKeyPrefix(profileId);
+  if (typeof indexedDB === 'undefined') return createLocalStorageRepository(prefix, codec);
+
+  try {
+    const db = await openDatabase(getDatabaseName(profileId), onBlocked);
+    return createIndexedDbRepository(db, prefix, codec);
+  } catch (error) {
+    // IndexedDB desabilitado: o fallback é esperado e não precisa de aviso
+    if (error instanceof DOMException && error.name === 'SecurityError') return createLocalStorageRepository(prefix, codec);
+    // Qualquer outra falha não pode virar um localStorage vazio, onde o que for digitado se perderia
+    throw new StorageError('Não foi possível abrir o banco de dados deste aparelho.', 'unreadable');
+  }
+};
@@ -0,0 +1,106 @@
+import { ValueCodec } from './repository';
+import { EncryptedValue, createSalt, deriveKey, encryptValue, decryptValue, createEncryptionCodec } from './crypto';
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+
+// A cada MAX_PIN_ATTEMPTS erros seguidos o PIN fica bloqueado, e o bloqueio dobra a cada rodada
+const MAX_PIN_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+const LOCK_KEY = 'pinLock';
+const ATTEMPTS_KEY = 'pinAttempts';
+
+// Texto conhecido, criptografado com a chave do PIN, para conferir o PIN sem guardá-lo
+const VERIFIER = 'meu-corre';
+
+interface PinLock {
+  salt: string;
+  verifier: EncryptedValue;
+}
+
+interface PinAttempts {
+  failures: number;
+  lockedUntil?: number;
+}
+
+export class PinError extends Error {
+  constructor(message: string, public readonly lockedUntil?: number) {
+    super(message);
+    this.name = 'PinError';
+  }
+}
+
+export const isValidPin = (pin: string) =>
+  /^\d+$/.test(pin) && pin.length >= PIN_MIN_LENGTH && pin.length <= PIN_MAX_LENGTH;
+
+const loadPinLock = (prefix: string): PinLock | null => {
+  try {
+    return JSON.parse(localStorage.getItem(prefix + LOCK_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const loadAttempts = (prefix: string): PinAttempts => {
+  try {
+    return JSON.parse(localStorage.getItem(prefix + ATTEMPTS_KEY) || 'null') || { failures: 0 };
+  } catch {
+    return { failures: 0 };
+  }
+};
+
+export const hasPinLock = (prefix: string) => loadPinLock(prefix) !== null;
+
+/** Momento até o qual novas tentativas estão bloqueadas, se houver bloqueio em andamento. */
+export const getLockedUntil = (prefix: string) => {
+  const { lockedUntil } = loadAttempts(prefix);
+  return lockedUntil && lockedUntil > Date.now() ? lockedUntil : undefined;
+};
+
+const registerFailure = (prefix: string) => {
+  const failures = loadAttempts(prefix).failures + 1;
+  const round = Math.floor(failures / MAX_PIN_ATTEMPTS);
+  const lockedUntil = failures % MAX_PIN_ATTEMPTS === 0
+    ? Date.now() + Math.min(BASE_LOCKOUT_MS * 2 ** (round - 1), MAX_LOCKOUT_MS)
+    : undefined;
+  localStorage.setItem(prefix + ATTEMPTS_KEY, JSON.stringify({ failures, lockedUntil }));
+  return { remaining: MAX_PIN_ATTEMPTS - (failures % MAX_PIN_ATTEMPTS), lockedUntil };
+};
+
+/** Cria (ou troca) o PIN e devolve o codec que criptografa os dados com a nova chave. */
+export const createPinLock = async (prefix: string, pin: string): Promise<ValueCodec> => {
+  const salt = createSalt();
+  const key = await deriveKey(pin, salt);
+  const lock: PinLock = { salt, verifier: await encryptValue(key, VERIFIER) };
+  localStorage.setItem(prefix + LOCK_KEY, JSON.stringify(lock));
+  localStorage.removeItem(prefix + ATTEMPTS_KEY);
+  return createEncryptionCodec(key);
+};
+
+/** Confere o PIN e devolve o codec para ler os dados. Lança PinError quando o PIN está errado ou bloqueado. */
+export const unlockWithPin = async (prefix: string, pin: string): Promise<ValueCodec> => {
+  const lock = loadPinLock(prefix);
+  if (!lock) throw new PinError('Nenhum PIN cadastrado.');
+
+  const lockedUntil = getLockedUntil(prefix);
+  if (lockedUntil) throw new PinError('Muitas tentativas erradas.', lockedUntil);
+
+  const key = await deriveKey(pin, lock.salt);
+  try {
+    if (await decryptValue(key, lock.verifier) !== VERIFIER) throw new Error();
+  } catch {
+    const failure = registerFailure(prefix);
+    if (failure.lockedUntil) throw new PinError('Muitas tentativas erradas.', failure.lockedUntil);
+    throw new PinError(failure.remaining === 1 ? 'PIN incorreto. Resta 1 tentativa.' : `PIN incorreto. Restam ${failure.remaining} tentativas.`);
+  }
+
+  localStorage.removeItem(prefix + ATTEMPTS_KEY);
+  return createEncryptionCodec(key);
+};
+
+export const removePinLock = (prefix: string) => {
+  localStorage.removeItem(prefix + LOCK_KEY);
+  localStorage.removeItem(prefix + ATTEMPTS_KEY);
+};
@@ -0,0 +1,49 @@
+import { Profile } from '../types';
+import { clearLocalStorageData } from './localStorageRepository';
+import { deleteDatabase } from './indexedDbRepository';
+import { saveSyncConfig } from './sync';
+import { removePinLock } from './pinLock';
+
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'activeProfileId';
+
+// O perfil principal usa os nomes de armazenamento de antes dos perfis, então nada precisa ser migrado
+export const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: 'Principal' };
+
+export const getDatabaseName = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? 'meu-corre' : `meu-corre-${profileId}`;
+
+export const getStorageKeyPrefix = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? '' : `profile:${profileId}:`;
+
+export const loadProfiles = (): Profile[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROFILES_KEY) || 'null');
+    if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+  } catch {
+    // Lista ilegível: volta só com o perfil principal, que sempre existe
+  }
+  return [DEFAULT_PROFILE];
+};
+
+export const saveProfiles = (profiles: Profile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = (profiles: Profile[]) => {
+  const saved = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.some(p => p.id === saved) ? saved! : profiles[0].id;
+};
+
+export const saveActiveProfileId = (profileId: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+};
+
+/** Apaga todos os dados gravados de um perfil, em qualquer um dos armazenamentos. */
+export const deleteProfileData = async (profileId: string) => {
+  clearLocalStorageData(getStorageKeyPrefix(profileId));
+  saveSyncConfig(getStorageKeyPrefix(profileId), null);
+  removePinLock(getStorageKeyPrefix(profileId));
+  if (typeof indexedDB !== 'undefined') await deleteDatabase(getDatabaseName(profileId));
+};
@@ -0,0 +1,139 @@
+import { AppData, GoalSettings, SyncedCollection } from '../types';
+
+export type RecordCollection = SyncedCollection | 'tombstones';
+
+export const RECORD_COLLECTIONS: RecordCollection[] = ['transactions', 'fixedExpenses', 'creditCards', 'trash', 'catalog', 'templates', 'workLogs', 'shifts', 'maintenancePlans', 'accounts', 'transfers', 'tombstones'];
+
+export type StorageErrorReason = 'unreadable' | 'newer-version' | 'write-failed';
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly reason: StorageErrorReason) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/** Alterações incrementais: só os registros que mudaram são gravados. */
+export interface ChangeSet {
+  upserts: { [K in RecordCollection]?: AppData[K] };
+  deletes: { [K in RecordCollection]?: string[] };
+  goalSettings?: GoalSettings;
+}
+
+/** Transforma cada valor antes de gravar e depois de ler (ex.: criptografia com o PIN). */
+export interface ValueCodec {
+  encode(value: unknown): Promise<unknown>;
+  decode(stored: unknown): Promise<unknown>;
+}
+
+export const plainCodec: ValueCodec = {
+  encode: async value => value,
+  decode: async stored => stored
+};
+
+/**
+ * Encadeia as gravações. Com a codificação assíncrona, duas gravações seguidas
+ * poderiam terminar fora de ordem e a mais antiga sobrescreveria a mais nova.
+ */
+export const createWriteQueue = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T,>(task: () => Promise<T>) => {
+    const run = tail.then(task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+};
+
+export interface DataRepository {
+  /** Lê e migra os dados salvos. Lança StorageError quando algo não pode ser lido. */
+  load(): Promise<AppData>;
+  apply(changes: ChangeSet): Promise<void>;
+  replaceAll(data: AppData): Promise<void>;
+  clear(): Promise<void>;
+  /** Libera a conexão ao trocar de perfil. */
+  close(): void;
+  /** Troca a codificação das próximas leituras e gravações; para recodificar o que já está salvo, chame `replaceAll`. */
+  setCodec(codec: ValueCodec): void;
+  /** Fotos anexadas ficam fora dos registros (e fora da sincronização), como data URL já comprimida. */
+  saveAttachment(id: string, dataUrl: string): Promise<void>;
+  /** Devolve null quando a foto não está neste aparelho. */
+  loadAttachment(id: string): Promise<string | null>;
+  /** Apaga as fotos gravadas antes de `createdBefore` que nenhum registro usa mais. */
+  pruneAttachments(referencedIds: Set<string>, createdBefore: number): Promise<void>;
+}
+
+// Como cada foto fica gravada junto da data em que foi anexada
+export interface StoredAttachment {
+  id: string;
+  createdAt: number;
+  data: unknown; // Data URL passada pelo codec
+}
+
+/**
+ * Compara dois snapshots pela referência de cada registro.
+ * Como o estado é imutável, um registro só muda de referência quando foi editado.
+ */
+export const diffAppData = (prev: AppData, next: AppData): ChangeSet => {
+  const changes: ChangeSet = { upserts: {}, deletes: {} };
+
+  RECORD_COLLECTIONS.forEach(collection => {
+    const prevRecords: { id: string }[] = prev[collection];
+    const nextRecords: { id: string }[] = next[collection];
+    if (prevRecords === nextRecords) return;
+
+    const prevById = new Map(prevRecords.map(r => [r.id, r]));
+    const nextIds = new Set(nextRecords.map(r => r.id));
+
+    const upserts = nextRecords.filter(r => prevById.get(r.id) !== r);
+    const deletes = prevRecords.filter(r => !nextIds.has(r.id)).map(r => r.id);
+
+    if (upserts.length > 0) (changes.upserts as Record<string, unknown[]>)[collection] = upserts;
+    if (deletes.length > 0) changes.deletes[collection] = deletes;
+  });
+
+  if (prev.goalSettings !== next.goalSettings) changes.goalSettings = next.goalSettings;
+  return changes;
+};
+
+/**
+ * Aplica um ChangeSet a um snapshot (o inverso de `diffAppData`), usado para receber alterações de outra aba.
+ * `shouldReplace` decide se um registro existente é substituído pela versão recebida.
+ */
+export const applyChangeSet = (
+  data: AppData,
+  changes: ChangeSet,
+  shouldReplace: (current: unknown, incoming: unknown) => boolean = () => true
+): AppData => {
+  const changed: Partial<AppData> = {};
+
+  RECORD_COLLECTIONS.forEach(collection => {
+    const upserts: { id: string }[] = changes.upserts[collection] || [];
+    const deletes = new Set(changes.deletes[collection] || []);
+    if (upserts.length === 0 && deletes.size === 0) return;
+
+    const current: { id: string }[] = data[collection];
+    const currentById = new Map(current.map(r => [r.id, r]));
+    const upsertsById = new Map(upserts.map(r => [r.id, r]));
+
+    const next = current
+      .filter(r => !deletes.has(r.id))
+      .map(r => {
+        const incoming = upsertsById.get(r.id);
+        return incoming && shouldReplace(r, incoming) ? incoming : r;
+      });
+    upserts.forEach(r => {
+      if (!currentById.has(r.id)) next.push(r);
+    });
+    (changed as Record<string, unknown>)[collection] = next;
+  });
+
+  if (changes.goalSettings && shouldReplace(data.goalSettings, changes.goalSettings)) {
+    changed.goalSettings = changes.goalSettings;
+  }
+  return { ...data, ...changed };
+};
+
+export const isEmptyChangeSet = (changes: ChangeSet) =>
+  Object.keys(changes.upserts).length === 0 &&
+  Object.keys(changes.deletes).length === 0 &&
+  changes.goalSettings === undefined;
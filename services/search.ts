@@ -0,0 +1,111 @@
+import { Transaction, FixedExpense, TransactionType } from '../types';
+import { getFixedExpensesForRange, parseDateLocal, getISODate } from '../utils';
+import { getCategoryAmounts } from './splits';
+
+export interface SearchFilters {
+  text: string;
+  type: TransactionType | 'all';
+  category?: string; // Categoria do gasto ou da fixa
+  platform?: string; // App do ganho
+  minAmount?: number;
+  maxAmount?: number;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = { text: '', type: 'all' };
+
+// Lançamentos e ocorrências de fixas num formato só, para listar e somar juntos
+export interface SearchResult {
+  key: string;
+  source: 'transaction' | 'fixed';
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number;
+  type: TransactionType;
+  category?: string;
+  platform?: string;
+  isPaid?: boolean; // Só nas fixas
+  installment?: string; // "3/10" nas fixas parceladas
+  transaction?: Transaction;
+}
+
+export interface SearchTotals {
+  income: number;
+  expense: number;
+  count: number;
+}
+
+// Ignora maiúsculas e acentos: "pneu" encontra "Pneu", "manutencao" encontra "Manutenção"
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const matches = (result: SearchResult, filters: SearchFilters, terms: string[]) => {
+  if (filters.type !== 'all' && result.type !== filters.type) return false;
+  if (filters.category && result.category !== filters.category) return false;
+  if (filters.platform && result.platform !== filters.platform) return false;
+  if (filters.minAmount !== undefined && result.amount < filters.minAmount) return false;
+  if (filters.maxAmount !== undefined && result.amount > filters.maxAmount) return false;
+  if (filters.startDate && result.date < filters.startDate) return false;
+  if (filters.endDate && result.date > filters.endDate) return false;
+  if (terms.length === 0) return true;
+
+  const haystack = normalize([result.description, result.category, result.platform].filter(Boolean).join(' '));
+  return terms.every(term => haystack.includes(term));
+};
+
+/**
+ * Procura em todo o histórico: lançamentos e ocorrências das fixas.
+ * Sem data final, as fixas só contam até hoje, para não somar meses que ainda não chegaram.
+ * O resultado vem do mais recente para o mais antigo.
+ */
+export const searchHistory = (transactions: Transaction[], fixedExpenses: FixedExpense[], filters: SearchFilters, today = new Date()) => {
+  const terms = normalize(filters.text).split(/\s+/).filter(Boolean);
+
+  const transactionResults = transactions.map((t): SearchResult => {
+    // Num gasto dividido, o filtro de categoria soma só as partes daquela categoria
+    const parts = getCategoryAmounts(t).filter(part => !filters.category || part.category === filters.category);
+    const categories = Array.from(new Set(parts.map(part => part.category).filter(Boolean)));
+    return {
+      key: t.id,
+      source: 'transaction',
+      date: getISODate(parseDateLocal(t.date)),
+      description: t.description,
+      amount: parts.reduce((acc, part) => acc + part.amount, 0),
+      type: t.type,
+      category: categories.length > 0 ? categories.join(' + ') : undefined,
+      platform: t.platform,
+      transaction: t
+    };
+  });
+
+  const earliestStart = fixedExpenses.reduce((min, e) => e.startDate < min ? e.startDate : min, getISODate(today));
+  const rangeStart = parseDateLocal(filters.startDate && filters.startDate > earliestStart ? filters.startDate : earliestStart);
+  const rangeEnd = filters.endDate ? parseDateLocal(filters.endDate) : new Date(today);
+  rangeEnd.setHours(23, 59, 59, 999);
+
+  const fixedResults = rangeStart <= rangeEnd
+    ? getFixedExpensesForRange(fixedExpenses, rangeStart, rangeEnd).map((item): SearchResult => ({
+        key: `${item.id}:${item.occurrenceDate}`,
+        source: 'fixed',
+        date: item.occurrenceDate,
+        description: item.title,
+        amount: item.amount,
+        type: item.type,
+        category: item.category,
+        isPaid: item.isPaid,
+        installment: item.currentInstallment ? `${item.currentInstallment}/${item.installments}` : undefined
+      }))
+    : [];
+
+  return [...transactionResults, ...fixedResults]
+    .filter(result => matches(result, filters, terms))
+    .sort((a, b) => b.date.localeCompare(a.date) || (b.transaction?.date || '').localeCompare(a.transaction?.date || ''));
+};
+
+export const getSearchTotals = (results: SearchResult[]): SearchTotals =>
+  results.reduce((acc, r) => ({
+    income: acc.income + (r.type === 'income' ? r.amount : 0),
+    expense: acc.expense + (r.type === 'expense' ? r.amount : 0),
+    count: acc.count + 1
+  }), { income: 0, expense: 0, count: 0 });
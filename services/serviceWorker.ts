@@ -0,0 +1,44 @@
+// De quanto em quanto tempo o app procura uma versão nova enquanto fica aberto
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Registra o service worker (só no build de produção) e chama `onUpdateReady`
+ * quando uma versão nova foi baixada e está esperando para assumir.
+ * Devolve uma função que para de acompanhar as atualizações.
+ */
+export const registerServiceWorker = (onUpdateReady: (worker: ServiceWorker) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return () => {};
+
+  let active = true;
+  let interval: ReturnType<typeof setInterval> | undefined;
+
+  navigator.serviceWorker.register('/sw.js')
+    .then(registration => {
+      // Sem controller é a primeira instalação, não uma atualização
+      const notify = () => {
+        if (active && registration.waiting && navigator.serviceWorker.controller) onUpdateReady(registration.waiting);
+      };
+
+      notify();
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed') notify();
+        });
+      });
+      if (active) interval = setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_MS);
+    })
+    // Sem service worker o app continua funcionando, só não abre offline
+    .catch(() => undefined);
+
+  return () => {
+    active = false;
+    if (interval) clearInterval(interval);
+  };
+};
+
+/** Pede para a versão nova assumir e recarrega a página quando ela estiver no controle. */
+export const applyUpdate = (worker: ServiceWorker) => {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  worker.postMessage({ type: 'SKIP_WAITING' });
+};
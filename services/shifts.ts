@@ -0,0 +1,70 @@
+import { Shift, Transaction } from '../types';
+import { getISODate } from '../utils';
+
+const MINUTE = 60 * 1000;
+
+export const getOpenShift = (shifts: Shift[]) => shifts.find(s => !s.end);
+
+export const isShiftPaused = (shift: Shift) => shift.pauses.some(p => !p.end);
+
+/** Dia a que o turno pertence: o do início, mesmo que ele passe da meia-noite. */
+export const getShiftDay = (shift: Shift) => getISODate(new Date(shift.start));
+
+/** Tempo trabalhado em milissegundos, sem as pausas. Turnos e pausas abertos contam até `now`. */
+export const getShiftWorkedMs = (shift: Shift, now = new Date()) => {
+  const end = shift.end ? new Date(shift.end).getTime() : now.getTime();
+  const paused = shift.pauses.reduce((acc, p) =>
+    acc + Math.max(0, (p.end ? new Date(p.end).getTime() : end) - new Date(p.start).getTime()), 0);
+  return Math.max(0, end - new Date(shift.start).getTime() - paused);
+};
+
+export const getShiftMinutes = (shift: Shift, now = new Date()) => Math.round(getShiftWorkedMs(shift, now) / MINUTE);
+
+export const startShift = (id: string, now = new Date()): Shift => ({ id, start: now.toISOString(), pauses: [] });
+
+export const toggleShiftPause = (shift: Shift, now = new Date()): Shift => ({
+  ...shift,
+  pauses: isShiftPaused(shift)
+    ? shift.pauses.map(p => p.end ? p : { ...p, end: now.toISOString() })
+    : [...shift.pauses, { start: now.toISOString() }]
+});
+
+/** Encerra o turno, fechando a pausa que estiver aberta. O fim nunca fica antes do início. */
+export const endShift = (shift: Shift, end: Date): Shift => {
+  const endTime = new Date(Math.max(end.getTime(), new Date(shift.start).getTime())).toISOString();
+  return {
+    ...shift,
+    end: endTime,
+    pauses: shift.pauses.map(p => p.end ? p : { ...p, end: p.start > endTime ? p.start : endTime })
+  };
+};
+
+/** Minutos trabalhados por dia (YYYY-MM-DD), somando todos os turnos do dia. */
+export const getShiftMinutesByDay = (shifts: Shift[], now = new Date()) =>
+  shifts.reduce<Record<string, number>>((acc, shift) => {
+    const day = getShiftDay(shift);
+    acc[day] = (acc[day] || 0) + getShiftMinutes(shift, now);
+    return acc;
+  }, {});
+
+export interface ShiftSummary {
+  count: number;
+  minutes: number;
+  income: number; // Ganhos dos dias com turno
+  perHour: number | null;
+}
+
+/** Turnos entre `startDate` e `endDate` (YYYY-MM-DD, inclusivos) contra os ganhos dos mesmos dias. */
+export const summarizeShifts = (shifts: Shift[], transactions: Transaction[], startDate: string, endDate: string, now = new Date()): ShiftSummary => {
+  const inRange = shifts.filter(s => {
+    const day = getShiftDay(s);
+    return day >= startDate && day <= endDate;
+  });
+  const days = new Set(inRange.map(getShiftDay));
+  const minutes = inRange.reduce((acc, s) => acc + getShiftMinutes(s, now), 0);
+  const income = transactions
+    .filter(t => t.type === 'income' && days.has(t.date.split('T')[0]))
+    .reduce((acc, t) => acc + t.amount, 0);
+
+  return { count: inRange.length, minutes, income, perHour: minutes > 0 ? income / (minutes / 60) : null };
+};
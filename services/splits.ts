@@ -0,0 +1,21 @@
+import { TransactionSplit } from '../types';
+
+// Diferença aceita entre a soma das partes e o total, para não travar por arredondamento
+const CENTS_TOLERANCE = 0.005;
+
+/**
+ * Quanto o lançamento soma em cada categoria. Um gasto dividido vale pelas partes;
+ * os demais, pela categoria e valor inteiros. É o que os relatórios devem somar.
+ */
+export const getCategoryAmounts = (t: { category?: string; amount: number; splits?: TransactionSplit[] }): { category?: string; amount: number }[] =>
+  t.splits && t.splits.length > 0 ? t.splits : [{ category: t.category, amount: t.amount }];
+
+export const sumSplits = (splits: TransactionSplit[]) =>
+  splits.reduce((acc, split) => acc + split.amount, 0);
+
+export const splitsMatchTotal = (splits: TransactionSplit[], total: number) =>
+  Math.abs(sumSplits(splits) - total) < CENTS_TOLERANCE;
+
+/** Categorias distintas do lançamento, na ordem das partes, para mostrar e buscar. */
+export const getCategoryNames = (t: { category?: string; amount: number; splits?: TransactionSplit[] }) =>
+  Array.from(new Set(getCategoryAmounts(t).map(part => part.category).filter((c): c is string => !!c)));
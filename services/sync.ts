@@ -0,0 +1,227 @@
+import { AppData, GoalSettings, SyncedCollection, SyncMetadata, Tombstone } from '../types';
+
+export const SYNCED_COLLECTIONS: SyncedCollection[] = ['transactions', 'fixedExpenses', 'creditCards', 'trash', 'catalog', 'templates', 'workLogs', 'shifts', 'maintenancePlans', 'accounts', 'transfers'];
+
+type SyncedRecord = SyncMetadata & { id: string };
+
+export interface SyncRecord {
+  collection: SyncedCollection;
+  value: SyncedRecord;
+}
+
+/** O que é trocado com o servidor nos dois sentidos. */
+export interface SyncChanges {
+  records: SyncRecord[];
+  tombstones: Tombstone[];
+  goalSettings?: GoalSettings;
+}
+
+export interface SyncConfig {
+  endpoint: string;
+  token?: string;
+}
+
+export interface SyncState {
+  // Cursor devolvido pelo servidor; só ele sabe comparar com o próprio relógio
+  cursor?: string;
+  // Horário deste aparelho em que as alterações locais foram enviadas pela última vez
+  lastPushedAt?: string;
+  lastSyncedAt?: string;
+}
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+const getTombstoneId = (collection: SyncedCollection, recordId: string) => `${collection}:${recordId}`;
+
+// Registros sem `updatedAt` vieram de antes da sincronização e perdem para qualquer alteração datada
+const timestampOf = (value?: SyncMetadata) => value?.updatedAt || '';
+
+/**
+ * Marca com `updatedAt` os registros que mudaram entre dois snapshots e cria lápides para os removidos.
+ * Usa a mesma comparação por referência de `diffAppData`, então vale para edições, desfazer e refazer.
+ */
+export const stampChanges = (prev: AppData, next: AppData, now = new Date()): AppData => {
+  const updatedAt = now.toISOString();
+  const removed = new Map<string, Tombstone>();
+  const readded = new Set<string>();
+  const stamped: Partial<AppData> = {};
+
+  SYNCED_COLLECTIONS.forEach(collection => {
+    const prevRecords: SyncedRecord[] = prev[collection];
+    const nextRecords: SyncedRecord[] = next[collection];
+    if (prevRecords === nextRecords) return;
+
+    const prevById = new Map(prevRecords.map(r => [r.id, r]));
+    const nextIds = new Set(nextRecords.map(r => r.id));
+
+    (stamped as Record<string, SyncedRecord[]>)[collection] = nextRecords.map(r => {
+      const previous = prevById.get(r.id);
+      if (previous === r) return r;
+      if (!previous) readded.add(getTombstoneId(collection, r.id));
+      return { ...r, updatedAt };
+    });
+    prevRecords.forEach(r => {
+      if (nextIds.has(r.id)) return;
+      const id = getTombstoneId(collection, r.id);
+      removed.set(id, { id, collection, recordId: r.id, deletedAt: updatedAt });
+    });
+  });
+
+  const goalSettingsChanged = prev.goalSettings !== next.goalSettings;
+  if (Object.keys(stamped).length === 0 && !goalSettingsChanged) return next;
+
+  const tombstones = removed.size === 0 && readded.size === 0
+    ? next.tombstones
+    : [
+        ...next.tombstones.filter(t => !removed.has(t.id) && !readded.has(t.id)),
+        ...removed.values()
+      ];
+
+  return {
+    ...next,
+    ...stamped,
+    tombstones,
+    goalSettings: goalSettingsChanged ? { ...next.goalSettings, updatedAt } : next.goalSettings
+  };
+};
+
+/** Tudo o que foi alterado neste aparelho desde `since` (ou tudo, na primeira sincronização). */
+export const collectLocalChanges = (data: AppData, since?: string): SyncChanges => {
+  const isNew = (timestamp: string) => !since || timestamp >= since;
+
+  return {
+    records: SYNCED_COLLECTIONS.flatMap(collection =>
+      (data[collection] as SyncedRecord[])
+        .filter(value => isNew(timestampOf(value)))
+        .map(value => ({ collection, value }))
+    ),
+    tombstones: data.tombstones.filter(t => isNew(t.deletedAt)),
+    goalSettings: isNew(timestampOf(data.goalSettings)) ? data.goalSettings : undefined
+  };
+};
+
+/**
+ * Aplica as alterações vindas de outros aparelhos. Para cada registro vence a alteração mais recente,
+ * seja uma edição (`updatedAt`) ou uma exclusão (`deletedAt` da lápide). Empates mantêm a versão local.
+ */
+export const mergeRemoteChanges = (local: AppData, remote: SyncChanges): AppData => {
+  const collections = new Map<SyncedCollection, Map<string, SyncedRecord>>(
+    SYNCED_COLLECTIONS.map(collection => [collection, new Map((local[collection] as SyncedRecord[]).map(r => [r.id, r]))])
+  );
+  const tombstones = new Map(local.tombstones.map(t => [t.id, t]));
+  let changed = false;
+
+  remote.records.forEach(({ collection, value }) => {
+    const records = collections.get(collection);
+    if (!records) return;
+    const tombstoneId = getTombstoneId(collection, value.id);
+    const current = records.get(value.id);
+    const tombstone = tombstones.get(tombstoneId);
+    if (timestampOf(value) <= timestampOf(current)) return;
+    if (tombstone && timestampOf(value) <= tombstone.deletedAt) return;
+
+    records.set(value.id, value);
+    tombstones.delete(tombstoneId);
+    changed = true;
+  });
+
+  remote.tombstones.forEach(remoteTombstone => {
+    const records = collections.get(remoteTombstone.collection);
+    if (!records) return;
+    const current = records.get(remoteTombstone.recordId);
+    const tombstone = tombstones.get(remoteTombstone.id);
+
+    if (current && timestampOf(current) < remoteTombstone.deletedAt) {
+      records.delete(remoteTombstone.recordId);
+      changed = true;
+    }
+    if (!records.has(remoteTombstone.recordId) && (!tombstone || tombstone.deletedAt < remoteTombstone.deletedAt)) {
+      tombstones.set(remoteTombstone.id, remoteTombstone);
+      changed = true;
+    }
+  });
+
+  const goalSettings = remote.goalSettings && timestampOf(remote.goalSettings) > timestampOf(local.goalSettings)
+    ? remote.goalSettings
+    : local.goalSettings;
+
+  if (!changed && goalSettings === local.goalSettings) return local;
+
+  // Coleções sem alteração mantêm a referência, para que só o que mudou seja regravado
+  const replaced: Partial<AppData> = {};
+  SYNCED_COLLECTIONS.forEach(collection => {
+    const records = Array.from(collections.get(collection)!.values());
+    const original: SyncedRecord[] = local[collection];
+    const isSame = records.length === original.length && records.every((r, i) => r === original[i]);
+    if (!isSame) (replaced as Record<string, SyncedRecord[]>)[collection] = records;
+  });
+  return { ...local, ...replaced, goalSettings, tombstones: Array.from(tombstones.values()) };
+};
+
+/**
+ * Troca alterações com o servidor em uma única chamada:
+ * `POST {endpoint}/sync` com `{ since, changes }` responde `{ cursor, changes }`,
+ * onde `changes` são as alterações recebidas pelo servidor depois de `since`.
+ */
+export const exchangeChanges = async (config: SyncConfig, since: string | undefined, changes: SyncChanges) => {
+  let response: Response;
+  try {
+    response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+      },
+      body: JSON.stringify({ since: since ?? null, changes })
+    });
+  } catch {
+    throw new SyncError('Não foi possível conectar ao servidor.');
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new SyncError('O servidor recusou o token de acesso.');
+  }
+  if (!response.ok) {
+    throw new SyncError(`O servidor respondeu com erro (${response.status}).`);
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!body || typeof body.cursor !== 'string' || !body.changes || !Array.isArray(body.changes.records) || !Array.isArray(body.changes.tombstones)) {
+    throw new SyncError('A resposta do servidor está em um formato inesperado.');
+  }
+  return { cursor: body.cursor as string, changes: body.changes as SyncChanges };
+};
+
+const CONFIG_KEY = 'syncConfig';
+const STATE_KEY = 'syncState';
+
+const readJson = <T,>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+// Configuração e cursores ficam no localStorage, com o mesmo prefixo de chaves do perfil
+export const loadSyncConfig = (prefix: string) => readJson<SyncConfig>(prefix + CONFIG_KEY);
+export const loadSyncState = (prefix: string) => readJson<SyncState>(prefix + STATE_KEY) || {};
+
+export const saveSyncConfig = (prefix: string, config: SyncConfig | null) => {
+  if (config) {
+    localStorage.setItem(prefix + CONFIG_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(prefix + CONFIG_KEY);
+  }
+  // Outro servidor (ou nenhum) começa do zero
+  localStorage.removeItem(prefix + STATE_KEY);
+};
+
+export const saveSyncState = (prefix: string, state: SyncState) => {
+  localStorage.setItem(prefix + STATE_KEY, JSON.stringify(state));
+};
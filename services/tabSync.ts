@@ -0,0 +1,46 @@
+import { ChangeSet } from './repository';
+
+/** Mensagens trocadas entre abas (e janelas do app instalado) abertas no mesmo perfil. */
+export type TabMessage =
+  | { type: 'changes'; changes: ChangeSet }
+  // Algo foi regravado por inteiro (ex.: PIN ativado); as outras abas releem tudo
+  | { type: 'reload' };
+
+export interface TabChannel {
+  post(message: TabMessage): void;
+  close(): void;
+}
+
+const STORAGE_MESSAGE_KEY = 'tabMessage';
+
+/**
+ * Abre o canal do perfil. Usa BroadcastChannel e, nos navegadores sem suporte,
+ * o evento `storage` do localStorage, que também só chega às outras abas.
+ */
+export const openTabChannel = (profileId: string, onMessage: (message: TabMessage) => void): TabChannel => {
+  const name = `meu-corre:${profileId}`;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = event => onMessage(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_MESSAGE_KEY || !event.newValue) return;
+    const { channel, message } = JSON.parse(event.newValue);
+    if (channel === name) onMessage(message);
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => {
+      // O timestamp garante que mensagens iguais seguidas ainda disparem o evento
+      localStorage.setItem(STORAGE_MESSAGE_KEY, JSON.stringify({ channel: name, message, sentAt: Date.now() }));
+      localStorage.removeItem(STORAGE_MESSAGE_KEY);
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
@@ -0,0 +1,24 @@
+import { EntryTemplate, Transaction } from '../types';
+
+/** Ordem da faixa de atalhos: mais usados primeiro e, no empate, o usado por último. */
+export const sortTemplatesByUsage = (templates: EntryTemplate[]) =>
+  [...templates].sort((a, b) =>
+    b.usageCount - a.usageCount ||
+    (b.lastUsedAt || '').localeCompare(a.lastUsedAt || '') ||
+    a.name.localeCompare(b.name)
+  );
+
+export const recordTemplateUse = (templates: EntryTemplate[], id: string, now = new Date()) =>
+  templates.map(t => t.id === id ? { ...t, usageCount: t.usageCount + 1, lastUsedAt: now.toISOString() } : t);
+
+/** Lançamento de um toque, só para atalhos que já têm valor. */
+export const createTransactionFromTemplate = (template: EntryTemplate, id: string, date: string): Transaction => ({
+  id,
+  amount: template.amount || 0,
+  description: template.name,
+  date,
+  type: template.type,
+  category: template.type === 'expense' ? template.category : undefined,
+  platform: template.type === 'income' ? template.platform : undefined,
+  accountId: template.accountId
+});
@@ -0,0 +1,86 @@
+import { AppData, TrashItem, Transaction, FixedExpense } from '../types';
+import { TRASH_RETENTION_DAYS } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Itens com o mesmo id substituem o anterior, ex.: um lançamento restaurado e excluído de novo
+const addToTrash = (trash: TrashItem[], items: TrashItem[]) => {
+  const ids = new Set(items.map(item => item.id));
+  return [...trash.filter(item => !ids.has(item.id)), ...items];
+};
+
+export const trashTransactions = (data: AppData, ids: string[], now = new Date()): AppData => {
+  const removed = data.transactions.filter(t => ids.includes(t.id));
+  return {
+    ...data,
+    transactions: data.transactions.filter(t => !ids.includes(t.id)),
+    trash: addToTrash(data.trash, removed.map(record => ({ id: record.id, kind: 'transaction', record, deletedAt: now.toISOString() })))
+  };
+};
+
+export const trashFixedExpense = (data: AppData, id: string, now = new Date()): AppData => {
+  const record = data.fixedExpenses.find(e => e.id === id);
+  if (!record) return data;
+  return {
+    ...data,
+    fixedExpenses: data.fixedExpenses.filter(e => e.id !== id),
+    trash: addToTrash(data.trash, [{ id: record.id, kind: 'fixedExpense', record, deletedAt: now.toISOString() }])
+  };
+};
+
+export const trashOccurrence = (data: AppData, id: string, occurrenceDate: string, now = new Date()): AppData => {
+  const record = data.fixedExpenses.find(e => e.id === id);
+  if (!record) return data;
+  const updated: FixedExpense = { ...record, excludedDates: [...(record.excludedDates || []), occurrenceDate] };
+  return {
+    ...data,
+    fixedExpenses: data.fixedExpenses.map(e => e.id === id ? updated : e),
+    trash: addToTrash(data.trash, [{ id: `${id}:${occurrenceDate}`, kind: 'occurrence', record, occurrenceDate, deletedAt: now.toISOString() }])
+  };
+};
+
+/** Move tudo o que pode ser restaurado para a lixeira, mantendo o que já estava lá. */
+export const trashEverything = (data: AppData, now = new Date()): TrashItem[] => {
+  const deletedAt = now.toISOString();
+  return addToTrash(data.trash, [
+    ...data.transactions.map((record): TrashItem => ({ id: record.id, kind: 'transaction', record, deletedAt })),
+    ...data.fixedExpenses.map((record): TrashItem => ({ id: record.id, kind: 'fixedExpense', record, deletedAt }))
+  ]);
+};
+
+const upsert = <T extends { id: string }>(list: T[], record: T) =>
+  list.some(item => item.id === record.id)
+    ? list.map(item => item.id === record.id ? record : item)
+    : [...list, record];
+
+export const restoreTrashItem = (data: AppData, item: TrashItem): AppData => {
+  const trash = data.trash.filter(t => t.id !== item.id);
+
+  switch (item.kind) {
+    case 'transaction':
+      return { ...data, trash, transactions: upsert<Transaction>(data.transactions, item.record) };
+    case 'fixedExpense':
+      return { ...data, trash, fixedExpenses: upsert(data.fixedExpenses, item.record) };
+    case 'occurrence': {
+      // Se a fixa inteira foi excluída depois, restaura a fixa junto
+      const current = data.fixedExpenses.find(e => e.id === item.record.id) || item.record;
+      const restored = { ...current, excludedDates: (current.excludedDates || []).filter(d => d !== item.occurrenceDate) };
+      return {
+        ...data,
+        trash: trash.filter(t => !(t.kind === 'fixedExpense' && t.id === item.record.id)),
+        fixedExpenses: upsert(data.fixedExpenses, restored)
+      };
+    }
+  }
+};
+
+export const getTrashExpiry = (item: TrashItem) =>
+  new Date(new Date(item.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+export const getTrashDaysLeft = (item: TrashItem, now = new Date()) =>
+  Math.max(0, Math.ceil((getTrashExpiry(item).getTime() - now.getTime()) / DAY_MS));
+
+export const purgeExpiredTrash = (data: AppData, now = new Date()): AppData => {
+  const trash = data.trash.filter(item => getTrashExpiry(item) > now);
+  return trash.length === data.trash.length ? data : { ...data, trash };
+};
@@ -0,0 +1,90 @@
+import { Transaction, WorkLog } from '../types';
+
+export type WorkLogFields = Omit<WorkLog, 'id' | 'updatedAt'>;
+
+/**
+ * Lê uma duração digitada como "5:30", "5h30", "45min", "5,5" ou "5.5" (horas).
+ * Devolve minutos, ou undefined quando o campo está vazio ou não é uma duração.
+ */
+export const parseDuration = (text: string) => {
+  const value = text.trim().toLowerCase();
+  if (!value) return undefined;
+
+  const clock = value.match(/^(\d+)\s*[:h]\s*(\d{0,2})\s*(min)?$/);
+  if (clock) {
+    const minutes = clock[2] ? parseInt(clock[2], 10) : 0;
+    return minutes < 60 ? parseInt(clock[1], 10) * 60 + minutes : undefined;
+  }
+
+  const onlyMinutes = value.match(/^(\d+)\s*min$/);
+  if (onlyMinutes) return parseInt(onlyMinutes[1], 10);
+
+  // O texto inteiro precisa ser o número, para "5abc" não virar 5 horas
+  const hours = value.match(/^(?:\d+(?:[.,]\d*)?|[.,]\d+)$/);
+  return hours ? Math.round(parseFloat(hours[0].replace(',', '.')) * 60) : undefined;
+};
+
+export const formatDuration = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  return m === 0 ? `${h}h` : `${h}h${m.toString().padStart(2, '0')}`;
+};
+
+export const isEmptyWorkLog = (log: WorkLogFields) =>
+  !log.deliveries && !log.km && !log.onlineMinutes && !log.ridingMinutes;
+
+export interface WorkSummary {
+  days: number; // Dias com registro no intervalo
+  income: number; // Ganhos dos dias com registro
+  deliveries: number;
+  km: number;
+  onlineMinutes: number;
+  ridingMinutes: number;
+  perHour: number | null; // R$ por hora online
+  perKm: number | null;
+  perDelivery: number | null;
+  ridingShare: number | null; // Parte do tempo online que foi rodando
+}
+
+/**
+ * Soma os registros de trabalho entre `startDate` e `endDate` (YYYY-MM-DD, inclusivos).
+ * Cada média só usa os ganhos dos dias em que aquela medida foi anotada, para que um dia
+ * sem km registrado não infle o R$/km.
+ */
+export const summarizeWork = (workLogs: WorkLog[], transactions: Transaction[], startDate: string, endDate: string): WorkSummary => {
+  const logs = workLogs.filter(log => log.id >= startDate && log.id <= endDate);
+
+  const incomeByDay: Record<string, number> = {};
+  transactions.forEach(t => {
+    if (t.type !== 'income') return;
+    const day = t.date.split('T')[0];
+    if (day >= startDate && day <= endDate) incomeByDay[day] = (incomeByDay[day] || 0) + t.amount;
+  });
+
+  const rate = (field: keyof WorkLogFields, perUnit = 1) => {
+    const measured = logs.filter(log => (log[field] || 0) > 0);
+    const total = measured.reduce((acc, log) => acc + (log[field] || 0), 0);
+    const income = measured.reduce((acc, log) => acc + (incomeByDay[log.id] || 0), 0);
+    return total > 0 ? income / (total / perUnit) : null;
+  };
+
+  const sum = (field: keyof WorkLogFields, from = logs) => from.reduce((acc, log) => acc + (log[field] || 0), 0);
+  const onlineMinutes = sum('onlineMinutes');
+  const ridingMinutes = sum('ridingMinutes');
+  // Só compara os dias em que as duas horas foram anotadas
+  const bothTimes = logs.filter(log => log.onlineMinutes && log.ridingMinutes);
+  const bothOnline = sum('onlineMinutes', bothTimes);
+
+  return {
+    days: logs.length,
+    income: logs.reduce((acc, log) => acc + (incomeByDay[log.id] || 0), 0),
+    deliveries: sum('deliveries'),
+    km: sum('km'),
+    onlineMinutes,
+    ridingMinutes,
+    perHour: rate('onlineMinutes', 60),
+    perKm: rate('km'),
+    perDelivery: rate('deliveries'),
+    ridingShare: bothOnline > 0 ? Math.min(1, sum('ridingMinutes', bothTimes) / bothOnline) : null
+  };
+};
@@ -1,24 +1,49 @@
 
 export type TransactionType = 'income' | 'expense';
 
-export interface Transaction {
+// Metadados de sincronização entre aparelhos
+export interface SyncMetadata {
+  updatedAt?: string; // ISO string da última alteração; ausente em registros anteriores à sincronização
+}
+
+// Parte de um gasto dividido, como combustível + óleo + lanche na mesma parada no posto
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+}
+
+// Dados do abastecimento, anotados junto com o gasto de combustível
+export interface FuelFill {
+  odometer?: number; // Km no painel na hora de abastecer
+  liters?: number;
+  partial?: boolean; // Não completou o tanque; o consumo só fecha no próximo tanque cheio
+}
+
+export interface Transaction extends SyncMetadata {
   id: string;
   amount: number;
   description: string;
   date: string; // ISO string
   type: TransactionType;
+  category?: string; // Categoria do gasto (Combustível, Alimentação...)
+  platform?: string; // App de entrega que pagou o ganho (iFood, 99...)
+  splits?: TransactionSplit[]; // Gasto dividido entre categorias; as partes somam o amount e substituem a category
+  attachmentIds?: string[]; // Fotos de comprovantes, gravadas à parte no aparelho
+  fuel?: FuelFill; // Só em gastos com combustível
+  accountId?: string; // Onde o dinheiro entrou ou de onde saiu; ausente em lançamentos antigos
+  externalId?: string; // Identificador no extrato bancário (FITID) quando importado de um OFX
 }
 
 export type RecurrenceType = 'monthly' | 'installments' | 'single';
 
-export interface CreditCard {
+export interface CreditCard extends SyncMetadata {
   id: string;
   name: string;
   color: string;
   limit: number;
 }
 
-export interface FixedExpense {
+export interface FixedExpense extends SyncMetadata {
   id: string;
   title: string;
   amount: number;
@@ -30,11 +55,10 @@ export interface FixedExpense {
   excludedDates?: string[]; // Array of ISO Date strings (YYYY-MM-DD) for specific occurrences that were deleted
   paidDates?: string[]; // Array of ISO Date strings (YYYY-MM-DD) for specific occurrences that were marked as paid
   cardId?: string; // Optional reference to a CreditCard
+  attachmentIds?: Record<string, string[]>; // Fotos de comprovantes por ocorrência { "2024-12-05": ["id"] }
 }
 
-export interface GoalSettings {
-  monthlyGoal: number; // Deprecated
-  monthlyGoals?: Record<string, number>; // Deprecated
+export interface GoalSettings extends SyncMetadata {
   daysOff: string[]; // Array of ISO date strings (YYYY-MM-DD)
   startDayOfMonth: number; // 1-31
   endDayOfMonth?: number; // 1-31, or undefined for automatic (startDay - 1)
@@ -44,7 +68,137 @@ export interface GoalSettings {
   savingsWithdrawals?: Record<string, number>; // Retiradas da reserva { "2024-12-25": 100 }
 }
 
-export type ViewMode = 'home' | 'goals' | 'yearly-goals' | 'settings' | 'fixed-expenses';
+// Itens excluídos ficam na lixeira até serem restaurados ou expirarem
+export type TrashItem = SyncMetadata & {
+  id: string;
+  deletedAt: string; // ISO string
+} & (
+  | { kind: 'transaction'; record: Transaction }
+  | { kind: 'fixedExpense'; record: FixedExpense }
+  | { kind: 'occurrence'; record: FixedExpense; occurrenceDate: string } // Uma única ocorrência removida via excludedDates
+);
+
+export type CatalogKind = 'category' | 'platform';
+
+// Categorias de gasto e apps de entrega que aparecem como chips nos formulários.
+// Os lançamentos guardam o nome, então renomear um item atualiza os registros que o usam
+export interface CatalogItem extends SyncMetadata {
+  id: string;
+  kind: CatalogKind;
+  name: string;
+  color: string; // Hex usado nos gráficos e no ícone
+  icon: string; // Chave de CATALOG_ICONS
+  order: number;
+  archived?: boolean; // Some dos formulários, mas continua nos relatórios
+}
+
+// Atalho de lançamento, tocado na faixa do Dashboard. Guarda nomes do catálogo, como os lançamentos
+export interface EntryTemplate extends SyncMetadata {
+  id: string;
+  name: string; // Também vira a descrição do lançamento
+  type: TransactionType;
+  amount?: number; // Sem valor, o toque abre o formulário preenchido para digitar só o valor
+  category?: string;
+  platform?: string;
+  usageCount: number; // Ordena a faixa: os mais usados vêm primeiro
+  lastUsedAt?: string; // ISO string; desempata a ordem
+  accountId?: string;
+}
+
+export type AccountKind = 'cash' | 'bank' | 'wallet';
+
+// Onde o dinheiro fica: no bolso, no banco ou ainda na carteira de um app. Os lançamentos guardam o id,
+// então renomear não mexe em nada; uma conta que não é mais usada é arquivada, nunca apagada
+export interface Account extends SyncMetadata {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  platformId?: string; // Item do catálogo cujo ganho cai nesta carteira
+  order: number;
+  archived?: boolean;
+}
+
+// Dinheiro que mudou de conta sem ser ganho nem gasto, como o saque da carteira do app para o banco
+export interface Transfer extends SyncMetadata {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: string; // YYYY-MM-DD
+}
+
+// Trabalho de um dia. O id é a própria data, então cada dia tem um registro só,
+// ligado aos lançamentos daquele dia pela data
+export interface WorkLog extends SyncMetadata {
+  id: string; // YYYY-MM-DD
+  deliveries?: number;
+  km?: number;
+  onlineMinutes?: number; // Tempo logado nos apps
+  ridingMinutes?: number; // Tempo rodando de fato, em entrega ou indo buscar
+}
+
+export interface ShiftPause {
+  start: string; // ISO string
+  end?: string; // Ausente enquanto a pausa está em andamento
+}
+
+// Turno de trabalho. Guarda só horários, então o cronômetro continua certo depois de recarregar o app
+export interface Shift extends SyncMetadata {
+  id: string;
+  start: string; // ISO string
+  end?: string; // Ausente enquanto o turno está aberto
+  pauses: ShiftPause[]; // Almoço e outras paradas, descontadas das horas trabalhadas
+}
+
+// Manutenção da moto que se repete a cada tantos km ou meses, o que vencer primeiro
+export interface MaintenancePlan extends SyncMetadata {
+  id: string;
+  name: string;
+  intervalKm?: number;
+  intervalMonths?: number;
+  estimatedCost: number;
+  lastDoneDate: string; // YYYY-MM-DD
+  lastDoneKm?: number; // Odômetro na última vez
+  pendingExpenseId?: string; // Conta avulsa criada quando a próxima ficou perto
+}
+
+// Coleções de registros que são sincronizadas entre aparelhos
+export type SyncedCollection = 'transactions' | 'fixedExpenses' | 'creditCards' | 'trash' | 'catalog' | 'templates' | 'workLogs' | 'shifts' | 'maintenancePlans' | 'accounts' | 'transfers';
+
+// Lápide de um registro excluído, para que a exclusão chegue aos outros aparelhos em vez de o registro voltar
+export interface Tombstone {
+  id: string; // `${collection}:${recordId}`
+  collection: SyncedCollection;
+  recordId: string;
+  deletedAt: string; // ISO string
+}
+
+// Cada perfil tem seus próprios dados, gravados separadamente no aparelho
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+// Snapshot completo dos dados persistidos do usuário
+export interface AppData {
+  transactions: Transaction[];
+  fixedExpenses: FixedExpense[];
+  creditCards: CreditCard[];
+  trash: TrashItem[];
+  catalog: CatalogItem[];
+  templates: EntryTemplate[];
+  workLogs: WorkLog[];
+  shifts: Shift[];
+  maintenancePlans: MaintenancePlan[];
+  accounts: Account[];
+  transfers: Transfer[];
+  tombstones: Tombstone[];
+  goalSettings: GoalSettings;
+}
+
+export type Theme = 'light' | 'dark';
+
+export type ViewMode = 'home' | 'goals' | 'yearly-goals' | 'settings' | 'fixed-expenses' | 'platforms' | 'search' | 'fuel';
 
 export interface SummaryData {
   income: number;
@@ -209,3 +209,37 @@ export const getFixedExpensesForPeriod = (
     return null;
   }).filter((e): e is (FixedExpense & { currentInstallment: number | null, occurrenceDate: string, isPaid: boolean }) => e !== null);
 };
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Expande as fixas para um intervalo qualquer de datas, mês a mês.
+ * Diferente de getFixedExpensesForPeriod, o intervalo pode abranger vários ciclos.
+ */
+export const getFixedExpensesForRange = (
+  expenses: FixedExpense[],
+  rangeStart: Date,
+  rangeEnd: Date
+) => {
+  const occurrences: ReturnType<typeof getFixedExpensesForPeriod> = [];
+  let monthStart = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), 1);
+
+  while (monthStart <= rangeEnd) {
+    const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0, 23, 59, 59, 999);
+    const periodStart = monthStart < rangeStart ? rangeStart : monthStart;
+    const periodEnd = monthEnd > rangeEnd ? rangeEnd : monthEnd;
+    occurrences.push(...getFixedExpensesForPeriod(expenses, periodStart, periodEnd));
+    monthStart = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
+  }
+
+  return occurrences.sort((a, b) => a.occurrenceDate.localeCompare(b.occurrenceDate));
+};
@@ -1,7 +1,41 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SERVICE_WORKER_FILE = 'sw.js';
+
+const listFiles = (dir: string, base = dir): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full, base) : [path.relative(base, full).split(path.sep).join('/')];
+  });
+
+// Gera o sw.js a partir de service-worker.js com a lista de arquivos do build, para o app abrir offline.
+// A versão é o hash do conteúdo, então qualquer mudança no build instala um service worker novo.
+const serviceWorkerPlugin = (): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'meu-corre-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    closeBundle() {
+      const files = listFiles(outDir).filter(file => file !== SERVICE_WORKER_FILE && !file.endsWith('.map'));
+      const hash = crypto.createHash('sha256');
+      files.forEach(file => hash.update(file).update(fs.readFileSync(path.join(outDir, file))));
+
+      const template = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8');
+      const source = template
+        .replace('__SW_VERSION__', hash.digest('hex').slice(0, 12))
+        .replace('__SW_PRECACHE__', JSON.stringify(['/', ...files.map(file => `/${file}`)]));
+      fs.writeFileSync(path.join(outDir, SERVICE_WORKER_FILE), source);
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +43,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)